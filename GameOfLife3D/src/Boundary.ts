@@ -0,0 +1,36 @@
+/**
+ * Edge topologies of the bounded grid. Each mode says which pairs of edges are
+ * glued together and whether the gluing is mirrored (a half twist):
+ *
+ * - plane: no edges connect; cells beyond them are dead
+ * - cylinder: the x edges connect, the y edges are dead
+ * - torus: both pairs connect
+ * - klein: the x edges connect, the y edges connect mirrored (Klein bottle)
+ * - cross: both pairs connect mirrored (cross-surface, the real projective plane)
+ */
+
+export type BoundaryMode = 'plane' | 'cylinder' | 'torus' | 'klein' | 'cross';
+
+export const BOUNDARY_MODES: ReadonlyArray<BoundaryMode> = ['plane', 'cylinder', 'torus', 'klein', 'cross'];
+
+export function isBoundaryMode(value: string): value is BoundaryMode {
+    return (BOUNDARY_MODES as ReadonlyArray<string>).includes(value);
+}
+
+/**
+ * Index (x * height + y) of the grid cell reached at (x, y), which may lie
+ * beyond the edges, or -1 when it falls off an edge that does not connect.
+ */
+export function resolveBoundaryCell(x: number, y: number, width: number, height: number, boundary: BoundaryMode): number {
+    if (x < 0 || x >= width) {
+        if (boundary === 'plane') return -1;
+        x = ((x % width) + width) % width;
+        if (boundary === 'cross') y = height - 1 - y;
+    }
+    if (y < 0 || y >= height) {
+        if (boundary === 'plane' || boundary === 'cylinder') return -1;
+        y = ((y % height) + height) % height;
+        if (boundary === 'klein' || boundary === 'cross') x = width - 1 - x;
+    }
+    return x * height + y;
+}
@@ -72,6 +72,9 @@ export class CameraController {
     };
 
     private isEnabled = true;
+    // Cell editing takes over the left mouse button and single-finger drags;
+    // the other buttons and two-finger gestures still move the camera
+    private primaryOrbit = true;
 
     // Bound event handlers for proper cleanup
     private boundOnKeyDown: (event: KeyboardEvent) => void;
@@ -232,6 +235,7 @@ export class CameraController {
 
     private onMouseDown(event: MouseEvent): void {
         if (!this.isEnabled) return;
+        if (event.button === 0 && !this.primaryOrbit) return;
 
         this.mouse.isDragging = true;
         this.mouse.button = event.button;
@@ -341,7 +345,7 @@ export class CameraController {
 
         const touches = event.touches;
 
-        if (touches.length === 1 && this.touch.touchCount === 1) {
+        if (touches.length === 1 && this.touch.touchCount === 1 && this.primaryOrbit) {
             // Single touch drag - orbit camera (like left mouse button)
             const deltaX = touches[0].clientX - this.touch.currentX;
             const deltaY = touches[0].clientY - this.touch.currentY;
@@ -527,6 +531,14 @@ export class CameraController {
         return this.isEnabled;
     }
 
+    setPrimaryOrbit(enabled: boolean): void {
+        this.primaryOrbit = enabled;
+        if (!enabled && this.mouse.button === 0) {
+            this.mouse.isDragging = false;
+            this.mouse.button = -1;
+        }
+    }
+
     getState(): CameraState {
         return {
             position: this.camera.position.clone(),
@@ -0,0 +1,675 @@
+import * as THREE from 'three';
+import { GridExtent } from './Renderer3D.js';
+import {
+    DEFAULT_DRAW_OPTIONS,
+    DrawOptions,
+    brushCells,
+    ellipseCells,
+    floodFillCells,
+    isShapeTool,
+    lineCells,
+    rectangleCells,
+    sprayCells,
+    symmetricCells
+} from './DrawingTools.js';
+
+export interface CellEditorConfig {
+    camera: THREE.Camera;
+    scene: THREE.Scene;
+    renderer: THREE.WebGLRenderer;
+    gridWidth: number;
+    gridHeight: number;
+    /** Placement of the cells in the world, from Renderer3D.getExtent */
+    getExtent: () => GridExtent;
+    getCellState: (x: number, y: number) => boolean;
+    /** A stroke that may paint is starting; its onPaint calls form one edit */
+    onStrokeStart: () => void;
+    /** Sets the cells, given as interleaved x, y pairs, alive or dead */
+    onPaint: (cells: Int32Array, alive: boolean) => void;
+    onEditModeChange: (active: boolean) => void;
+    /** Position in the generation list of the layer the select tool works on */
+    getSelectionLayer: () => number;
+    onSelectionChange: (selection: CellSelection | null) => void;
+    /** Drops the stamp with its [0][0] cell at (x, y) */
+    onStamp: (pattern: boolean[][], x: number, y: number) => void;
+    onStampChange: (active: boolean) => void;
+    onCopyRequest: () => void;
+    onPasteRequest: () => void;
+}
+
+/** Rectangle of cells picked with the select tool */
+export interface CellSelection {
+    /** Position in the generation list */
+    layer: number;
+    minX: number;
+    minY: number;
+    width: number;
+    height: number;
+}
+
+interface Cell {
+    x: number;
+    y: number;
+}
+
+const PREVIEW_ALIVE_COLOR = 0x00ff88;
+const PREVIEW_DEAD_COLOR = 0xff3355;
+const SELECTION_COLOR = 0xffee00;
+
+/**
+ * Editor for generation 0. In edit mode the left mouse button or a single
+ * finger draws on the generation 0 layer with the selected tool: the pencil
+ * and spray brushes paint as they move, lines, rectangles and ellipses are
+ * previewed until released, and fill flips a whole connected region. A drag
+ * paints with the opposite of the state of the cell it starts on. Every
+ * stroke is repeated for the selected symmetry.
+ *
+ * The select tool drags out a rectangle on the selection layer instead, for
+ * copying. A pasted pattern floats under the pointer as a stamp, and each
+ * click drops a copy of it into generation 0 until it is cancelled.
+ *
+ * Press C or the edit button to toggle edit mode, Escape to cancel the stamp
+ * or leave edit mode. Ctrl+C and Ctrl+V copy and paste while editing.
+ */
+export class CellEditor {
+    private camera: THREE.Camera;
+    private scene: THREE.Scene;
+    private renderer: THREE.WebGLRenderer;
+    private gridWidth: number;
+    private gridHeight: number;
+    private getExtent: () => GridExtent;
+    private getCellState: (x: number, y: number) => boolean;
+    private onStrokeStart: () => void;
+    private onPaint: (cells: Int32Array, alive: boolean) => void;
+    private onEditModeChange: (active: boolean) => void;
+
+    private isEditMode = false;
+    private options: DrawOptions = { ...DEFAULT_DRAW_OPTIONS };
+    // Overlay in cell coordinates: cell (x, y) is centered on (x, 0, y)
+    private overlay = new THREE.Group();
+    private gridHelper: THREE.LineSegments | null = null;
+    private hoverIndicator: THREE.Mesh;
+    private previewMesh: THREE.InstancedMesh | null = null;
+    private previewMaterial = new THREE.MeshBasicMaterial({
+        color: PREVIEW_ALIVE_COLOR,
+        transparent: true,
+        opacity: 0.5,
+        depthWrite: false
+    });
+    private previewGeometry = new THREE.BoxGeometry(1, 1, 1);
+    private _previewMatrix = new THREE.Matrix4();
+    private selectionBox: THREE.LineSegments;
+    private selection: CellSelection | null = null;
+    private stamp: boolean[][] | null = null;
+    private getSelectionLayer: () => number;
+    private onSelectionChange: (selection: CellSelection | null) => void;
+    private onStamp: (pattern: boolean[][], x: number, y: number) => void;
+    private onStampChange: (active: boolean) => void;
+    private onCopyRequest: () => void;
+    private onPasteRequest: () => void;
+
+    // Generation 0 is drawn centered on y = 0, generation list position n on y = n
+    private editPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+    private raycaster = new THREE.Raycaster();
+    private pointer = new THREE.Vector2();
+    private _hit = new THREE.Vector3();
+
+    private isDrawing = false;
+    private drawState = true; // true = painting alive, false = painting dead
+    private startCell: Cell | null = null;
+    private lastCell: Cell | null = null;
+    // Whether the touch in progress started as a single finger
+    private touchDrawing = false;
+
+    private boundOnKeyDown: (event: KeyboardEvent) => void;
+    private boundOnMouseMove: (event: MouseEvent) => void;
+    private boundOnMouseDown: (event: MouseEvent) => void;
+    private boundOnMouseUp: () => void;
+    private boundOnMouseLeave: () => void;
+    private boundOnTouchStart: (event: TouchEvent) => void;
+    private boundOnTouchMove: (event: TouchEvent) => void;
+    private boundOnTouchEnd: (event: TouchEvent) => void;
+
+    constructor(config: CellEditorConfig) {
+        this.camera = config.camera;
+        this.scene = config.scene;
+        this.renderer = config.renderer;
+        this.gridWidth = config.gridWidth;
+        this.gridHeight = config.gridHeight;
+        this.getExtent = config.getExtent;
+        this.getCellState = config.getCellState;
+        this.onStrokeStart = config.onStrokeStart;
+        this.onPaint = config.onPaint;
+        this.onEditModeChange = config.onEditModeChange;
+        this.getSelectionLayer = config.getSelectionLayer;
+        this.onSelectionChange = config.onSelectionChange;
+        this.onStamp = config.onStamp;
+        this.onStampChange = config.onStampChange;
+        this.onCopyRequest = config.onCopyRequest;
+        this.onPasteRequest = config.onPasteRequest;
+
+        const unitBox = new THREE.BoxGeometry(1, 1, 1);
+        this.selectionBox = new THREE.LineSegments(
+            new THREE.EdgesGeometry(unitBox),
+            new THREE.LineBasicMaterial({ color: SELECTION_COLOR })
+        );
+        unitBox.dispose();
+        this.selectionBox.visible = false;
+        this.overlay.add(this.selectionBox);
+
+        this.hoverIndicator = new THREE.Mesh(
+            new THREE.BoxGeometry(1, 1, 1),
+            new THREE.MeshBasicMaterial({
+                color: 0x00ff88,
+                transparent: true,
+                opacity: 0.35,
+                depthWrite: false
+            })
+        );
+        this.hoverIndicator.visible = false;
+        this.overlay.add(this.hoverIndicator);
+        this.createGridOverlay();
+
+        this.boundOnKeyDown = (event: KeyboardEvent) => this.handleKeyDown(event);
+        this.boundOnMouseMove = (event: MouseEvent) => this.handleMouseMove(event);
+        this.boundOnMouseDown = (event: MouseEvent) => this.handleMouseDown(event);
+        this.boundOnMouseUp = () => this.finishStroke();
+        this.boundOnMouseLeave = () => {
+            this.hoverIndicator.visible = false;
+            this.finishStroke();
+        };
+        this.boundOnTouchStart = (event: TouchEvent) => this.handleTouchStart(event);
+        this.boundOnTouchMove = (event: TouchEvent) => this.handleTouchMove(event);
+        this.boundOnTouchEnd = (event: TouchEvent) => this.handleTouchEnd(event);
+        this.attachEventListeners();
+    }
+
+    setEditMode(active: boolean): void {
+        if (active === this.isEditMode) return;
+        this.isEditMode = active;
+
+        if (active) {
+            this.syncPlacement();
+            this.scene.add(this.overlay);
+            this.renderer.domElement.style.cursor = 'crosshair';
+        } else {
+            this.cancelStroke();
+            this.setStamp(null);
+            this.setSelection(null);
+            this.scene.remove(this.overlay);
+            this.hoverIndicator.visible = false;
+            this.renderer.domElement.style.cursor = '';
+        }
+
+        this.onEditModeChange(active);
+    }
+
+    toggleEditMode(): void {
+        this.setEditMode(!this.isEditMode);
+    }
+
+    isActive(): boolean {
+        return this.isEditMode;
+    }
+
+    setDrawOptions(options: Partial<DrawOptions>): void {
+        this.cancelStroke();
+        this.options = { ...this.options, ...options };
+        if (this.options.tool !== 'select') {
+            this.setSelection(null);
+        }
+    }
+
+    getSelection(): CellSelection | null {
+        return this.selection ? { ...this.selection } : null;
+    }
+
+    /**
+     * Floats a pattern under the pointer for stamping, entering edit mode;
+     * null puts it away.
+     */
+    setStamp(pattern: boolean[][] | null): void {
+        if (pattern === null && this.stamp === null) return;
+
+        this.stamp = pattern;
+        this.cancelStroke();
+        if (pattern) {
+            this.setEditMode(true);
+        }
+        this.onStampChange(pattern !== null);
+    }
+
+    getStamp(): boolean[][] | null {
+        return this.stamp;
+    }
+
+    getDrawOptions(): DrawOptions {
+        return { ...this.options };
+    }
+
+    setGridSize(width: number, height: number = width): void {
+        this.gridWidth = width;
+        this.gridHeight = height;
+        this.createGridOverlay();
+        this.syncPlacement();
+    }
+
+    /**
+     * Moves the overlay after the renderer has re-centered the cells, which
+     * happens when the infinite plane grows.
+     */
+    syncPlacement(): void {
+        const extent = this.getExtent();
+        this.overlay.position.set(-(extent.minX + extent.width / 2), 0, -(extent.minY + extent.height / 2));
+    }
+
+    dispose(): void {
+        this.setEditMode(false);
+        document.removeEventListener('keydown', this.boundOnKeyDown);
+        const canvas = this.renderer.domElement;
+        canvas.removeEventListener('mousemove', this.boundOnMouseMove);
+        canvas.removeEventListener('mousedown', this.boundOnMouseDown);
+        canvas.removeEventListener('mouseup', this.boundOnMouseUp);
+        canvas.removeEventListener('mouseleave', this.boundOnMouseLeave);
+        canvas.removeEventListener('touchstart', this.boundOnTouchStart);
+        canvas.removeEventListener('touchmove', this.boundOnTouchMove);
+        canvas.removeEventListener('touchend', this.boundOnTouchEnd);
+        canvas.removeEventListener('touchcancel', this.boundOnTouchEnd);
+
+        if (this.gridHelper) {
+            this.gridHelper.geometry.dispose();
+            (this.gridHelper.material as THREE.Material).dispose();
+        }
+        this.previewMesh?.dispose();
+        this.selectionBox.geometry.dispose();
+        (this.selectionBox.material as THREE.Material).dispose();
+        this.previewGeometry.dispose();
+        this.previewMaterial.dispose();
+        this.hoverIndicator.geometry.dispose();
+        (this.hoverIndicator.material as THREE.Material).dispose();
+    }
+
+    /**
+     * Lines around every editable cell, just under the generation 0 cubes.
+     */
+    private createGridOverlay(): void {
+        if (this.gridHelper) {
+            this.overlay.remove(this.gridHelper);
+            this.gridHelper.geometry.dispose();
+            (this.gridHelper.material as THREE.Material).dispose();
+        }
+
+        const points: THREE.Vector3[] = [];
+        const floor = -0.5;
+        for (let x = 0; x <= this.gridWidth; x++) {
+            points.push(new THREE.Vector3(x - 0.5, floor, -0.5));
+            points.push(new THREE.Vector3(x - 0.5, floor, this.gridHeight - 0.5));
+        }
+        for (let y = 0; y <= this.gridHeight; y++) {
+            points.push(new THREE.Vector3(-0.5, floor, y - 0.5));
+            points.push(new THREE.Vector3(this.gridWidth - 0.5, floor, y - 0.5));
+        }
+
+        this.gridHelper = new THREE.LineSegments(
+            new THREE.BufferGeometry().setFromPoints(points),
+            new THREE.LineBasicMaterial({ color: 0x00ff88, transparent: true, opacity: 0.25 })
+        );
+        this.overlay.add(this.gridHelper);
+    }
+
+    private attachEventListeners(): void {
+        const canvas = this.renderer.domElement;
+        canvas.addEventListener('mousemove', this.boundOnMouseMove);
+        canvas.addEventListener('mousedown', this.boundOnMouseDown);
+        canvas.addEventListener('mouseup', this.boundOnMouseUp);
+        canvas.addEventListener('mouseleave', this.boundOnMouseLeave);
+        canvas.addEventListener('touchstart', this.boundOnTouchStart, { passive: false });
+        canvas.addEventListener('touchmove', this.boundOnTouchMove, { passive: false });
+        canvas.addEventListener('touchend', this.boundOnTouchEnd, { passive: false });
+        canvas.addEventListener('touchcancel', this.boundOnTouchEnd, { passive: false });
+        document.addEventListener('keydown', this.boundOnKeyDown);
+    }
+
+    private handleKeyDown(event: KeyboardEvent): void {
+        // Allow typing in input fields
+        const target = event.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') {
+            return;
+        }
+
+        const command = event.ctrlKey || event.metaKey;
+        if (command && this.isEditMode && event.code === 'KeyC') {
+            event.preventDefault();
+            this.onCopyRequest();
+        } else if (command && this.isEditMode && event.code === 'KeyV') {
+            event.preventDefault();
+            this.onPasteRequest();
+        } else if (event.code === 'KeyC' && !command && !event.altKey) {
+            event.preventDefault();
+            this.toggleEditMode();
+        } else if (event.code === 'Escape' && this.stamp) {
+            this.setStamp(null);
+        } else if (event.code === 'Escape' && this.isEditMode) {
+            this.setEditMode(false);
+        }
+    }
+
+    private handleMouseMove(event: MouseEvent): void {
+        if (!this.isEditMode) return;
+        this.moveStroke(event.clientX, event.clientY);
+    }
+
+    private handleMouseDown(event: MouseEvent): void {
+        if (!this.isEditMode || event.button !== 0) return;
+        this.beginStroke(event.clientX, event.clientY);
+    }
+
+    /**
+     * A single finger draws like the left mouse button. A second finger
+     * abandons the stroke and leaves the gesture to the camera.
+     */
+    private handleTouchStart(event: TouchEvent): void {
+        if (!this.isEditMode) return;
+
+        const touches = event.touches;
+        if (touches.length === 1) {
+            this.touchDrawing = true;
+            this.beginStroke(touches[0].clientX, touches[0].clientY);
+        } else {
+            this.touchDrawing = false;
+            this.cancelStroke();
+        }
+    }
+
+    private handleTouchMove(event: TouchEvent): void {
+        if (!this.isEditMode || !this.touchDrawing || event.touches.length !== 1) return;
+        this.moveStroke(event.touches[0].clientX, event.touches[0].clientY);
+    }
+
+    private handleTouchEnd(event: TouchEvent): void {
+        if (event.touches.length > 0) return;
+        if (this.touchDrawing) {
+            this.finishStroke();
+        }
+        this.touchDrawing = false;
+        this.hoverIndicator.visible = false;
+    }
+
+    private beginStroke(clientX: number, clientY: number): void {
+        this.syncPlacement();
+        if (this.options.tool === 'select' && !this.stamp) {
+            this.beginSelection(clientX, clientY);
+            return;
+        }
+
+        const cell = this.getCellAt(clientX, clientY);
+        if (!cell) return;
+
+        if (this.stamp) {
+            const origin = this.stampOrigin(this.stamp, cell);
+            this.onStamp(this.stamp, origin.x, origin.y);
+            return;
+        }
+
+        this.onStrokeStart();
+
+        // The first cell decides whether the stroke paints or erases
+        this.drawState = !this.getCellState(cell.x, cell.y);
+        const { tool } = this.options;
+
+        if (tool === 'fill') {
+            this.paint(floodFillCells(cell.x, cell.y, this.gridWidth, this.gridHeight, this.getCellState));
+            return;
+        }
+
+        this.isDrawing = true;
+        this.startCell = cell;
+        this.lastCell = cell;
+        if (tool === 'spray') {
+            // Spraying only ever adds cells
+            this.drawState = true;
+            this.paint(this.brushAt(cell));
+        } else if (tool === 'pencil') {
+            this.paint(this.brushAt(cell));
+        } else {
+            this.showPreview(this.shapeTo(cell));
+        }
+    }
+
+    private moveStroke(clientX: number, clientY: number): void {
+        this.syncPlacement();
+        if (this.options.tool === 'select' && !this.stamp) {
+            this.moveSelection(clientX, clientY);
+            return;
+        }
+
+        const cell = this.getCellAt(clientX, clientY);
+        if (this.stamp) {
+            this.showStampPreview(cell);
+            return;
+        }
+        this.updateHoverIndicator(cell, 0);
+        if (!cell || !this.isDrawing || !this.lastCell) return;
+        if (cell.x === this.lastCell.x && cell.y === this.lastCell.y) return;
+
+        const { tool } = this.options;
+        if (tool === 'pencil') {
+            // Brush every cell on the way, so a fast drag leaves no gaps
+            const path = lineCells(this.lastCell.x, this.lastCell.y, cell.x, cell.y);
+            const cells: number[] = [];
+            for (let i = 2; i < path.length; i += 2) {
+                cells.push(...this.brushAt({ x: path[i], y: path[i + 1] }));
+            }
+            this.paint(Int32Array.from(cells));
+        } else if (tool === 'spray') {
+            this.paint(this.brushAt(cell));
+        } else {
+            this.showPreview(this.shapeTo(cell));
+        }
+        this.lastCell = cell;
+    }
+
+    private finishStroke(): void {
+        if (this.isDrawing && this.lastCell && isShapeTool(this.options.tool)) {
+            this.paint(this.shapeTo(this.lastCell));
+        }
+        this.cancelStroke();
+    }
+
+    private cancelStroke(): void {
+        this.isDrawing = false;
+        this.startCell = null;
+        this.lastCell = null;
+        if (this.previewMesh) {
+            this.previewMesh.count = 0;
+        }
+    }
+
+    /**
+     * Starts a selection on the selection layer. Cells anywhere in the
+     * rendered area can be selected, including beyond the grid on the
+     * infinite plane.
+     */
+    private beginSelection(clientX: number, clientY: number): void {
+        const layer = this.getSelectionLayer();
+        const cell = this.getCellAt(clientX, clientY, layer);
+        if (!cell) {
+            this.setSelection(null);
+            return;
+        }
+
+        this.isDrawing = true;
+        this.startCell = cell;
+        this.lastCell = cell;
+        this.setSelection({ layer, minX: cell.x, minY: cell.y, width: 1, height: 1 });
+    }
+
+    private moveSelection(clientX: number, clientY: number): void {
+        const layer = this.selection && this.isDrawing ? this.selection.layer : this.getSelectionLayer();
+        const cell = this.getCellAt(clientX, clientY, layer);
+        this.updateHoverIndicator(cell, layer);
+        if (!cell || !this.isDrawing || !this.startCell) return;
+        if (this.lastCell && cell.x === this.lastCell.x && cell.y === this.lastCell.y) return;
+
+        this.lastCell = cell;
+        this.setSelection({
+            layer,
+            minX: Math.min(this.startCell.x, cell.x),
+            minY: Math.min(this.startCell.y, cell.y),
+            width: Math.abs(cell.x - this.startCell.x) + 1,
+            height: Math.abs(cell.y - this.startCell.y) + 1
+        });
+    }
+
+    private setSelection(selection: CellSelection | null): void {
+        if (selection === null && this.selection === null) return;
+
+        this.selection = selection;
+        this.selectionBox.visible = selection !== null;
+        if (selection) {
+            this.selectionBox.scale.set(selection.width, 1, selection.height);
+            this.selectionBox.position.set(
+                selection.minX + (selection.width - 1) / 2,
+                selection.layer,
+                selection.minY + (selection.height - 1) / 2
+            );
+        }
+        this.onSelectionChange(this.getSelection());
+    }
+
+    /**
+     * Corner cell that puts the middle of the stamp under `cell`.
+     */
+    private stampOrigin(stamp: boolean[][], cell: Cell): Cell {
+        return {
+            x: cell.x - Math.floor(stamp.length / 2),
+            y: cell.y - Math.floor((stamp[0]?.length ?? 0) / 2)
+        };
+    }
+
+    private showStampPreview(cell: Cell | null): void {
+        this.hoverIndicator.visible = false;
+        if (!cell || !this.stamp) {
+            if (this.previewMesh) {
+                this.previewMesh.count = 0;
+            }
+            return;
+        }
+
+        const origin = this.stampOrigin(this.stamp, cell);
+        const cells: number[] = [];
+        for (let i = 0; i < this.stamp.length; i++) {
+            for (let j = 0; j < this.stamp[i].length; j++) {
+                if (this.stamp[i][j]) {
+                    cells.push(origin.x + i, origin.y + j);
+                }
+            }
+        }
+        this.drawState = true;
+        this.showPreview(Int32Array.from(cells), false);
+    }
+
+    private paint(cells: Int32Array): void {
+        if (cells.length === 0) return;
+        this.onPaint(symmetricCells(cells, this.options.symmetry, this.gridWidth, this.gridHeight), this.drawState);
+    }
+
+    private brushAt(cell: Cell): Int32Array {
+        const { tool, brushSize, sprayDensity } = this.options;
+        return tool === 'spray'
+            ? sprayCells(cell.x, cell.y, brushSize, sprayDensity)
+            : brushCells(cell.x, cell.y, brushSize);
+    }
+
+    /**
+     * The shape tool's cells from where the stroke started to `cell`.
+     */
+    private shapeTo(cell: Cell): Int32Array {
+        const start = this.startCell ?? cell;
+        const { tool, filledShapes } = this.options;
+        switch (tool) {
+            case 'rectangle':
+                return rectangleCells(start.x, start.y, cell.x, cell.y, filledShapes);
+            case 'ellipse':
+                return ellipseCells(start.x, start.y, cell.x, cell.y, filledShapes);
+            default:
+                return lineCells(start.x, start.y, cell.x, cell.y);
+        }
+    }
+
+    /**
+     * Shows the cells a shape or stamp will set, with the symmetric copies of
+     * a shape, until the stroke is released.
+     */
+    private showPreview(shape: Int32Array, symmetric: boolean = true): void {
+        const cells = symmetric ? symmetricCells(shape, this.options.symmetry, this.gridWidth, this.gridHeight) : shape;
+        const count = cells.length >> 1;
+
+        if (!this.previewMesh || this.previewMesh.instanceMatrix.count < count) {
+            if (this.previewMesh) {
+                this.overlay.remove(this.previewMesh);
+                this.previewMesh.dispose();
+            }
+            let capacity = 1024;
+            while (capacity < count) capacity *= 2;
+            this.previewMesh = new THREE.InstancedMesh(this.previewGeometry, this.previewMaterial, capacity);
+            // The bounding sphere would be stale as soon as the preview changes
+            this.previewMesh.frustumCulled = false;
+            this.overlay.add(this.previewMesh);
+        }
+
+        for (let i = 0; i < count; i++) {
+            this._previewMatrix.makeTranslation(cells[i * 2], 0, cells[i * 2 + 1]);
+            this.previewMesh.setMatrixAt(i, this._previewMatrix);
+        }
+        this.previewMesh.count = count;
+        this.previewMesh.instanceMatrix.needsUpdate = true;
+        this.previewMaterial.color.setHex(this.drawState ? PREVIEW_ALIVE_COLOR : PREVIEW_DEAD_COLOR);
+    }
+
+    /**
+     * Outlines the cells the pencil or spray brush would cover, or the single
+     * cell under the pointer for the other tools.
+     */
+    private updateHoverIndicator(cell: Cell | null, layer: number): void {
+        if (!cell) {
+            this.hoverIndicator.visible = false;
+            return;
+        }
+
+        const { tool, brushSize } = this.options;
+        const size = tool === 'pencil' || tool === 'spray' ? brushSize : 1;
+        // Even brushes reach one cell further toward +x and +y
+        const offset = (size - 1) / 2 - Math.floor((size - 1) / 2);
+        this.hoverIndicator.visible = true;
+        this.hoverIndicator.scale.set(size, 1, size);
+        this.hoverIndicator.position.set(cell.x + offset, layer, cell.y + offset);
+    }
+
+    /**
+     * Cell under the pointer on the layer at generation list position
+     * `layer`. Generation 0 is limited to the grid; other layers to the
+     * rendered area.
+     */
+    private getCellAt(clientX: number, clientY: number, layer: number = 0): Cell | null {
+        const rect = this.renderer.domElement.getBoundingClientRect();
+        this.pointer.x = ((clientX - rect.left) / rect.width) * 2 - 1;
+        this.pointer.y = -((clientY - rect.top) / rect.height) * 2 + 1;
+        this.raycaster.setFromCamera(this.pointer, this.camera);
+
+        this.editPlane.constant = -layer;
+        if (!this.raycaster.ray.intersectPlane(this.editPlane, this._hit)) return null;
+
+        const x = Math.round(this._hit.x - this.overlay.position.x);
+        const y = Math.round(this._hit.z - this.overlay.position.z);
+        if (this.options.tool === 'select' && !this.stamp) {
+            const extent = this.getExtent();
+            if (x < extent.minX || x >= extent.minX + extent.width || y < extent.minY || y >= extent.minY + extent.height) {
+                return null;
+            }
+        } else if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) {
+            return null;
+        }
+        return { x, y };
+    }
+}
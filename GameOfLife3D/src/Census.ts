@@ -0,0 +1,216 @@
+import { GameEngine, Generation } from './GameEngine.js';
+import { PatternLoader } from './PatternLoader.js';
+
+/**
+ * Object census: splits a generation into islands of live cells that touch
+ * (including diagonally) and names each island by comparing its canonical
+ * form with the built-in patterns and a catalog of common Life objects.
+ *
+ * Some objects fall apart into several islands in some phases (the toad, the
+ * spaceships, the pulsar), so islands separated by a single dead cell are
+ * first tried together and only split up when the group is not in the catalog.
+ */
+
+export interface CensusEntry {
+    /** Object name, or "Unidentified (N cells)" for islands not in the catalog */
+    name: string;
+    count: number;
+    /** Cells of each island as interleaved x, y pairs */
+    islands: Int32Array[];
+}
+
+interface CatalogObject {
+    name: string;
+    /** Rows of the object in plaintext style: O is alive, . is dead */
+    rows: string[];
+}
+
+// Common Life objects besides the PatternLoader library
+const CATALOG: CatalogObject[] = [
+    { name: 'Block', rows: ['OO', 'OO'] },
+    { name: 'Beehive', rows: ['.OO.', 'O..O', '.OO.'] },
+    { name: 'Loaf', rows: ['.OO.', 'O..O', '.O.O', '..O.'] },
+    { name: 'Boat', rows: ['OO.', 'O.O', '.O.'] },
+    { name: 'Ship', rows: ['OO.', 'O.O', '.OO'] },
+    { name: 'Tub', rows: ['.O.', 'O.O', '.O.'] },
+    { name: 'Pond', rows: ['.OO.', 'O..O', 'O..O', '.OO.'] },
+    { name: 'Long boat', rows: ['OO..', 'O.O.', '.O.O', '..O.'] },
+    { name: 'Barge', rows: ['.O..', 'O.O.', '.O.O', '..O.'] },
+    { name: 'Snake', rows: ['OO.O', 'O.OO'] },
+    { name: 'Eater 1', rows: ['OO..', 'O.O.', '..O.', '..OO'] },
+    { name: 'Toad', rows: ['.OOO', 'OOO.'] },
+    { name: 'Beacon', rows: ['OO..', 'OO..', '..OO', '..OO'] },
+    { name: 'Pentadecathlon', rows: ['..O....O..', 'OO.OOOO.OO', '..O....O..'] },
+    { name: 'Lightweight spaceship', rows: ['.O..O', 'O....', 'O...O', 'OOOO.'] },
+    { name: 'Middleweight spaceship', rows: ['...O..', '.O...O', 'O.....', 'O....O', 'OOOOO.'] },
+    { name: 'Heavyweight spaceship', rows: ['...OO..', '.O....O', 'O......', 'O.....O', 'OOOOOO.'] }
+];
+
+// Generations run per catalog object to collect the phases of oscillators and spaceships
+const MAX_CATALOG_PERIOD = 30;
+
+// Islands are keyed as (x + OFFSET) * SPAN + (y + OFFSET), as in the infinite plane engine
+const CELL_KEY_OFFSET = 1 << 24;
+const CELL_KEY_SPAN = 1 << 25;
+
+function cellKey(x: number, y: number): number {
+    return (x + CELL_KEY_OFFSET) * CELL_KEY_SPAN + (y + CELL_KEY_OFFSET);
+}
+
+/**
+ * Groups cells (interleaved x, y pairs) into islands. With a reach of 1 an
+ * island is 8-connected; a reach of 2 also joins cells one dead cell apart.
+ */
+export function findIslands(coords: Int32Array, reach: number = 1): Int32Array[] {
+    const count = coords.length >> 1;
+    const indexByKey = new Map<number, number>();
+    for (let i = 0; i < count; i++) {
+        indexByKey.set(cellKey(coords[i * 2], coords[i * 2 + 1]), i);
+    }
+
+    const visited = new Uint8Array(count);
+    const islands: Int32Array[] = [];
+    for (let start = 0; start < count; start++) {
+        if (visited[start]) continue;
+        visited[start] = 1;
+
+        const members: number[] = [];
+        const stack = [start];
+        while (stack.length > 0) {
+            const i = stack.pop()!;
+            const x = coords[i * 2];
+            const y = coords[i * 2 + 1];
+            members.push(x, y);
+            for (let dx = -reach; dx <= reach; dx++) {
+                for (let dy = -reach; dy <= reach; dy++) {
+                    const neighbor = indexByKey.get(cellKey(x + dx, y + dy));
+                    if (neighbor !== undefined && !visited[neighbor]) {
+                        visited[neighbor] = 1;
+                        stack.push(neighbor);
+                    }
+                }
+            }
+        }
+        islands.push(Int32Array.from(members));
+    }
+    return islands;
+}
+
+/**
+ * Key shared by every rotation and reflection of the same shape: the
+ * smallest of the eight orientations, each moved to the origin and sorted.
+ */
+export function canonicalKey(cells: Int32Array): string {
+    let best: string | null = null;
+    for (let orientation = 0; orientation < 8; orientation++) {
+        const points: Array<[number, number]> = [];
+        for (let i = 0; i < cells.length; i += 2) {
+            let x = cells[i];
+            let y = cells[i + 1];
+            if (orientation & 4) [x, y] = [y, x];
+            if (orientation & 1) x = -x;
+            if (orientation & 2) y = -y;
+            points.push([x, y]);
+        }
+
+        const minX = Math.min(...points.map(point => point[0]));
+        const minY = Math.min(...points.map(point => point[1]));
+        const key = points
+            .map(([x, y]) => [x - minX, y - minY])
+            .sort((a, b) => a[0] - b[0] || a[1] - b[1])
+            .map(([x, y]) => `${x}.${y}`)
+            .join(';');
+        if (best === null || key < best) {
+            best = key;
+        }
+    }
+    return best ?? '';
+}
+
+/**
+ * Names islands of live cells. The catalog is built on first use by running
+ * each known object on an infinite plane under B3/S23 and recording every
+ * phase of its cycle, so any phase in any orientation is recognized.
+ */
+export class ObjectCensus {
+    private patternLoader: PatternLoader;
+    private catalog: Map<string, string> | null = null;
+    private maxCatalogPopulation = 0;
+
+    constructor(patternLoader: PatternLoader) {
+        this.patternLoader = patternLoader;
+    }
+
+    /**
+     * Counts the objects in a generation, most common first.
+     */
+    take(generation: Generation): CensusEntry[] {
+        const entries = new Map<string, CensusEntry>();
+
+        const add = (name: string, island: Int32Array) => {
+            const entry = entries.get(name);
+            if (entry) {
+                entry.count++;
+                entry.islands.push(island);
+            } else {
+                entries.set(name, { name, count: 1, islands: [island] });
+            }
+        };
+
+        for (const group of findIslands(generation.coords, 2)) {
+            const known = this.identify(group);
+            if (known) {
+                add(known, group);
+                continue;
+            }
+            for (const island of findIslands(group)) {
+                add(this.identify(island) ?? `Unidentified (${island.length >> 1} cells)`, island);
+            }
+        }
+
+        return Array.from(entries.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+    }
+
+    private identify(cells: Int32Array): string | undefined {
+        const catalog = this.getCatalog();
+        if ((cells.length >> 1) > this.maxCatalogPopulation) return undefined;
+        return catalog.get(canonicalKey(cells));
+    }
+
+    private getCatalog(): Map<string, string> {
+        if (this.catalog) return this.catalog;
+
+        this.catalog = new Map();
+        // Library patterns come first so their names win over catalog duplicates
+        for (const info of this.patternLoader.getAllBuiltInPatterns()) {
+            this.addObject(info.name, info.pattern);
+        }
+        for (const object of CATALOG) {
+            this.addObject(object.name, object.rows.map(row => Array.from(row, cell => cell === 'O')));
+        }
+        return this.catalog;
+    }
+
+    private addObject(name: string, pattern: boolean[][]): void {
+        const engine = new GameEngine();
+        engine.setInfinite(true);
+        engine.initializeFromPattern(pattern);
+        engine.computeGenerations(MAX_CATALOG_PERIOD + 1);
+
+        // Patterns that never cycle from their first generation (guns, methuselahs) keep only that phase
+        const classification = engine.getClassification();
+        const phases = classification?.cycleStart === 0 ? classification.period : 1;
+        for (let i = 0; i < phases; i++) {
+            const phase = engine.getGeneration(i);
+            if (!phase) continue;
+
+            // A phase spread over several groups can never be matched as one object
+            if (findIslands(phase.coords, 2).length !== 1) continue;
+            const key = canonicalKey(phase.coords);
+            if (!this.catalog!.has(key)) {
+                this.catalog!.set(key, name);
+                this.maxCatalogPopulation = Math.max(this.maxCatalogPopulation, phase.population);
+            }
+        }
+    }
+}
@@ -0,0 +1,66 @@
+/**
+ * Undo and redo stacks of snapshots. Each entry is the state from before a
+ * command, labelled with the command's name. Recording a command clears the
+ * redo stack, and only the most recent `limit` commands are kept.
+ */
+
+export interface HistoryEntry<T> {
+    label: string;
+    snapshot: T;
+}
+
+export class CommandHistory<T> {
+    private undoStack: HistoryEntry<T>[] = [];
+    private redoStack: HistoryEntry<T>[] = [];
+    private limit: number;
+
+    constructor(limit: number = 50) {
+        this.limit = Math.max(1, limit);
+    }
+
+    /**
+     * Records a command that has just run, given the state from before it.
+     */
+    record(label: string, before: T): void {
+        this.undoStack.push({ label, snapshot: before });
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    /**
+     * Steps back one command. `current` is kept so the command can be redone.
+     * Returns the entry to restore, or null when there is nothing to undo.
+     */
+    undo(current: T): HistoryEntry<T> | null {
+        const entry = this.undoStack.pop();
+        if (!entry) return null;
+        this.redoStack.push({ label: entry.label, snapshot: current });
+        return entry;
+    }
+
+    /**
+     * Steps forward one undone command. `current` is kept so it can be undone
+     * again. Returns the entry to restore, or null when there is nothing to redo.
+     */
+    redo(current: T): HistoryEntry<T> | null {
+        const entry = this.redoStack.pop();
+        if (!entry) return null;
+        this.undoStack.push({ label: entry.label, snapshot: current });
+        return entry;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
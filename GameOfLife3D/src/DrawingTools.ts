@@ -0,0 +1,251 @@
+/**
+ * Cell sets for the editor's drawing tools. Every function returns cells as
+ * interleaved x, y pairs; cells may repeat or fall outside the grid, which
+ * GameEngine.setCells ignores.
+ */
+
+/** select picks a rectangle to copy instead of drawing */
+export type DrawTool = 'pencil' | 'line' | 'rectangle' | 'ellipse' | 'fill' | 'spray' | 'select';
+
+export const DRAW_TOOLS: ReadonlyArray<DrawTool> = ['pencil', 'line', 'rectangle', 'ellipse', 'fill', 'spray', 'select'];
+
+/**
+ * C1: none; D2: left-right mirror; C2: 180 degree rotation; D4: mirrors on
+ * both axes; C4: 90 degree rotation; D8: rotations and mirrors
+ */
+export type EditSymmetry = 'C1' | 'D2' | 'C2' | 'D4' | 'C4' | 'D8';
+
+export const EDIT_SYMMETRIES: ReadonlyArray<EditSymmetry> = ['C1', 'D2', 'C2', 'D4', 'C4', 'D8'];
+
+export interface DrawOptions {
+    tool: DrawTool;
+    symmetry: EditSymmetry;
+    /** Side of the pencil brush and diameter of the spray brush, in cells */
+    brushSize: number;
+    /** Probability that the spray brush sets a cell it covers, 0-1 */
+    sprayDensity: number;
+    /** Rectangles and ellipses are filled rather than outlined */
+    filledShapes: boolean;
+}
+
+export const DEFAULT_DRAW_OPTIONS: DrawOptions = {
+    tool: 'pencil',
+    symmetry: 'C1',
+    brushSize: 1,
+    sprayDensity: 0.3,
+    filledShapes: false
+};
+
+export function isDrawTool(value: string): value is DrawTool {
+    return (DRAW_TOOLS as ReadonlyArray<string>).includes(value);
+}
+
+export function isEditSymmetry(value: string): value is EditSymmetry {
+    return (EDIT_SYMMETRIES as ReadonlyArray<string>).includes(value);
+}
+
+/**
+ * Whether the tool draws a shape between where the drag starts and ends,
+ * rather than painting along the way.
+ */
+export function isShapeTool(tool: DrawTool): boolean {
+    return tool === 'line' || tool === 'rectangle' || tool === 'ellipse';
+}
+
+/**
+ * Cells of a straight line from (x0, y0) to (x1, y1), both ends included (Bresenham).
+ */
+export function lineCells(x0: number, y0: number, x1: number, y1: number): Int32Array {
+    const dx = Math.abs(x1 - x0);
+    const dy = -Math.abs(y1 - y0);
+    const stepX = x0 < x1 ? 1 : -1;
+    const stepY = y0 < y1 ? 1 : -1;
+    const cells = new Int32Array((Math.max(dx, -dy) + 1) * 2);
+
+    let error = dx + dy;
+    let x = x0;
+    let y = y0;
+    for (let i = 0; i < cells.length; i += 2) {
+        cells[i] = x;
+        cells[i + 1] = y;
+        const doubled = 2 * error;
+        if (doubled >= dy) {
+            error += dy;
+            x += stepX;
+        }
+        if (doubled <= dx) {
+            error += dx;
+            y += stepY;
+        }
+    }
+    return cells;
+}
+
+/**
+ * Square brush of `size` cells per side around (x, y).
+ */
+export function brushCells(x: number, y: number, size: number): Int32Array {
+    const start = -Math.floor((size - 1) / 2);
+    const cells = new Int32Array(size * size * 2);
+    let n = 0;
+    for (let i = 0; i < size; i++) {
+        for (let j = 0; j < size; j++) {
+            cells[n++] = x + start + i;
+            cells[n++] = y + start + j;
+        }
+    }
+    return cells;
+}
+
+/**
+ * Random cells from a disc of diameter `size` around (x, y), each picked with
+ * probability `density`.
+ */
+export function sprayCells(x: number, y: number, size: number, density: number, random: () => number = Math.random): Int32Array {
+    const start = -Math.floor((size - 1) / 2);
+    const radiusSquared = (size / 2) * (size / 2);
+    const cells: number[] = [];
+    for (let i = start; i < start + size; i++) {
+        for (let j = start; j < start + size; j++) {
+            if (i * i + j * j <= radiusSquared && random() < density) {
+                cells.push(x + i, y + j);
+            }
+        }
+    }
+    return Int32Array.from(cells);
+}
+
+/**
+ * Rectangle with opposite corners (x0, y0) and (x1, y1).
+ */
+export function rectangleCells(x0: number, y0: number, x1: number, y1: number, filled: boolean): Int32Array {
+    const minX = Math.min(x0, x1);
+    const maxX = Math.max(x0, x1);
+    const minY = Math.min(y0, y1);
+    const maxY = Math.max(y0, y1);
+    const cells: number[] = [];
+    for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+            if (filled || x === minX || x === maxX || y === minY || y === maxY) {
+                cells.push(x, y);
+            }
+        }
+    }
+    return Int32Array.from(cells);
+}
+
+/**
+ * Ellipse inscribed in the rectangle with opposite corners (x0, y0) and
+ * (x1, y1). The outline is every cell of the filled ellipse that has an
+ * orthogonal neighbor outside it.
+ */
+export function ellipseCells(x0: number, y0: number, x1: number, y1: number, filled: boolean): Int32Array {
+    const minX = Math.min(x0, x1);
+    const minY = Math.min(y0, y1);
+    const width = Math.abs(x1 - x0) + 1;
+    const height = Math.abs(y1 - y0) + 1;
+    const radiusX = width / 2;
+    const radiusY = height / 2;
+
+    const inside = new Uint8Array(width * height);
+    for (let i = 0; i < width; i++) {
+        for (let j = 0; j < height; j++) {
+            const dx = (i + 0.5 - radiusX) / radiusX;
+            const dy = (j + 0.5 - radiusY) / radiusY;
+            if (dx * dx + dy * dy <= 1) {
+                inside[i * height + j] = 1;
+            }
+        }
+    }
+
+    const isInside = (i: number, j: number) => i >= 0 && i < width && j >= 0 && j < height && inside[i * height + j] === 1;
+    const cells: number[] = [];
+    for (let i = 0; i < width; i++) {
+        for (let j = 0; j < height; j++) {
+            if (!isInside(i, j)) continue;
+            const edge = !isInside(i - 1, j) || !isInside(i + 1, j) || !isInside(i, j - 1) || !isInside(i, j + 1);
+            if (filled || edge) {
+                cells.push(minX + i, minY + j);
+            }
+        }
+    }
+    return Int32Array.from(cells);
+}
+
+/**
+ * The orthogonally connected region of cells that share the state of
+ * (x, y), within a width x height grid.
+ */
+export function floodFillCells(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    isAlive: (x: number, y: number) => boolean
+): Int32Array {
+    if (x < 0 || x >= width || y < 0 || y >= height) return new Int32Array(0);
+
+    const state = isAlive(x, y);
+    const visited = new Uint8Array(width * height);
+    const cells: number[] = [];
+    const stack = [x, y];
+    visited[x * height + y] = 1;
+    while (stack.length > 0) {
+        const cy = stack.pop()!;
+        const cx = stack.pop()!;
+        cells.push(cx, cy);
+        const neighbors = [cx - 1, cy, cx + 1, cy, cx, cy - 1, cx, cy + 1];
+        for (let i = 0; i < neighbors.length; i += 2) {
+            const nx = neighbors[i];
+            const ny = neighbors[i + 1];
+            if (nx < 0 || nx >= width || ny < 0 || ny >= height || visited[nx * height + ny]) continue;
+            visited[nx * height + ny] = 1;
+            if (isAlive(nx, ny) === state) {
+                stack.push(nx, ny);
+            }
+        }
+    }
+    return Int32Array.from(cells);
+}
+
+/**
+ * The cells together with their images under the symmetry, mirrored or
+ * rotated about the center of a width x height grid.
+ */
+export function symmetricCells(cells: Int32Array, symmetry: EditSymmetry, width: number, height: number): Int32Array {
+    if (symmetry === 'C1') return cells;
+
+    const centerX = (width - 1) / 2;
+    const centerY = (height - 1) / 2;
+    const result: number[] = [];
+    for (let i = 0; i < cells.length; i += 2) {
+        const dx = cells[i] - centerX;
+        const dy = cells[i + 1] - centerY;
+        let images: Array<[number, number]>;
+        switch (symmetry) {
+            case 'D2':
+                images = [[dx, dy], [-dx, dy]];
+                break;
+            case 'C2':
+                images = [[dx, dy], [-dx, -dy]];
+                break;
+            case 'D4':
+                images = [[dx, dy], [-dx, dy], [dx, -dy], [-dx, -dy]];
+                break;
+            case 'C4':
+                images = [[dx, dy], [-dy, dx], [-dx, -dy], [dy, -dx]];
+                break;
+            case 'D8':
+                images = [
+                    [dx, dy], [-dy, dx], [-dx, -dy], [dy, -dx],
+                    [dy, dx], [-dx, dy], [-dy, -dx], [dx, -dy]
+                ];
+                break;
+        }
+        // Rotations of a grid with sides of different parity land between cells
+        for (const [ix, iy] of images) {
+            result.push(Math.round(centerX + ix), Math.round(centerY + iy));
+        }
+    }
+    return Int32Array.from(result);
+}
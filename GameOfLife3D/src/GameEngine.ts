@@ -1,18 +1,370 @@
+import { BoundaryMode, isBoundaryMode, resolveBoundaryCell } from './Boundary.js';
+import { HashLife } from './HashLife.js';
+import { createTotalisticTable, formatCondition, getEnabledCounts, neighborBit, Neighborhood, NEIGHBORHOOD_MASKS, parseCondition } from './HenselNotation.js';
+import { countRangeNeighbors, formatLargerThanLife, getRangeOffsets, LargerThanLifeRule, parseLargerThanLife } from './LargerThanLife.js';
+import { PatternLoader } from './PatternLoader.js';
+import { PatternClassification, PeriodicityDetector } from './Periodicity.js';
+import { placementPattern, ScenePlacement } from './Scene.js';
+import { createSeed, DEFAULT_SOUP, generateSoup, SoupOptions } from './Soup.js';
+
 export interface CellState {
     x: number;
     y: number;
 }
 
-export interface Generation {
+export interface CellBounds {
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+}
+
+/**
+ * Session/JSON form of a generation. Current sessions store `coords`;
+ * `cells` and `liveCells` are accepted when importing older sessions.
+ * Dying cells of Generations rules are only written when present.
+ */
+export interface SerializedGeneration {
     index: number;
-    cells: boolean[][];
-    liveCells: CellState[];
+    coords?: number[];
+    dyingCoords?: number[];
+    dyingStates?: number[];
+    cells?: boolean[][];
+    liveCells?: CellState[];
+}
+
+/**
+ * Packed cell data of one generation, as passed between engine and worker.
+ */
+export interface GenerationCells {
+    coords: Int32Array;
+    dyingCoords: Int32Array;
+    dyingStates: Uint8Array;
+}
+
+const NO_COORDS = new Int32Array(0);
+const NO_DYING_STATES = new Uint8Array(0);
+
+// Cell ages are stored as Uint16 and stop counting here
+export const MAX_CELL_AGE = 65535;
+
+/**
+ * Binary search over sorted x, y pairs. Returns the pair index or -1.
+ */
+function findCell(coords: Int32Array, x: number, y: number): number {
+    let low = 0;
+    let high = (coords.length >> 1) - 1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        const mx = coords[mid * 2];
+        const my = coords[mid * 2 + 1];
+        if (mx === x && my === y) return mid;
+        if (mx < x || (mx === x && my < y)) {
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return -1;
+}
+
+interface GenerationChanges {
+    ages: Uint16Array;
+    births: Int32Array;
+    deaths: Int32Array;
+}
+
+/**
+ * Compares the live cells in `coords` with the previous generation. A cell's
+ * age is one more than its age in the previous generation when it was alive
+ * there, otherwise 0. Births are cells alive only now, deaths cells alive only
+ * before. Both coordinate lists are sorted, so a single merge pass finds them.
+ */
+function compareGenerations(previous: Generation, coords: Int32Array): GenerationChanges {
+    const count = coords.length >> 1;
+    const ages = new Uint16Array(count);
+    const births: number[] = [];
+    const deaths: number[] = [];
+    const previousCoords = previous.coords;
+    const previousCount = previous.population;
+    let i = 0;
+    let j = 0;
+    while (i < count || j < previousCount) {
+        let order: number;
+        if (i >= count) {
+            order = 1;
+        } else if (j >= previousCount) {
+            order = -1;
+        } else {
+            order = (coords[i * 2] - previousCoords[j * 2]) || (coords[i * 2 + 1] - previousCoords[j * 2 + 1]);
+        }
+
+        if (order === 0) {
+            ages[i] = Math.min(MAX_CELL_AGE, previous.ages[j] + 1);
+            i++;
+            j++;
+        } else if (order < 0) {
+            births.push(coords[i * 2], coords[i * 2 + 1]);
+            i++;
+        } else {
+            deaths.push(previousCoords[j * 2], previousCoords[j * 2 + 1]);
+            j++;
+        }
+    }
+    return { ages, births: Int32Array.from(births), deaths: Int32Array.from(deaths) };
+}
+
+/**
+ * One generation stored as a packed list of live cell coordinates.
+ * Memory scales with the live population instead of the grid area.
+ * Under Generations rules, dying (refractory) cells are kept in a second list
+ * with their state: 2 for just died, up to the rule's state count - 1.
+ */
+export class Generation {
+    readonly index: number;
+    readonly gridWidth: number;
+    readonly gridHeight: number;
+    /** Live cells as interleaved x, y pairs, sorted by x then y */
+    readonly coords: Int32Array;
+    /** Dying cells as interleaved x, y pairs, sorted by x then y */
+    readonly dyingCoords: Int32Array;
+    /** State of each dying cell, parallel to dyingCoords pairs */
+    readonly dyingStates: Uint8Array;
+    /** Generations each live cell has survived (0 when just born), parallel to coords pairs */
+    readonly ages: Uint16Array;
+    /** Cells alive here but not in the previous generation, as sorted x, y pairs */
+    readonly births: Int32Array;
+    /** Cells alive in the previous generation but not here, as sorted x, y pairs */
+    readonly deaths: Int32Array;
+
+    private bounds: CellBounds | null | undefined = undefined;
+
+    constructor(
+        index: number,
+        gridWidth: number,
+        gridHeight: number,
+        coords: Int32Array,
+        dyingCoords: Int32Array = NO_COORDS,
+        dyingStates: Uint8Array = NO_DYING_STATES,
+        ages: Uint16Array = new Uint16Array(coords.length >> 1),
+        births: Int32Array = NO_COORDS,
+        deaths: Int32Array = NO_COORDS
+    ) {
+        this.index = index;
+        this.gridWidth = gridWidth;
+        this.gridHeight = gridHeight;
+        this.coords = coords;
+        this.dyingCoords = dyingCoords;
+        this.dyingStates = dyingStates;
+        this.ages = ages;
+        this.births = births;
+        this.deaths = deaths;
+    }
+
+    /**
+     * @param previous The generation before this one, to carry cell ages over and find
+     * births and deaths; without it all cells are newborn and no changes are recorded
+     */
+    static fromCells(index: number, gridWidth: number, gridHeight: number, cells: GenerationCells, previous?: Generation): Generation {
+        if (!previous) {
+            return new Generation(index, gridWidth, gridHeight, cells.coords, cells.dyingCoords, cells.dyingStates);
+        }
+        const changes = compareGenerations(previous, cells.coords);
+        return new Generation(
+            index, gridWidth, gridHeight,
+            cells.coords, cells.dyingCoords, cells.dyingStates,
+            changes.ages, changes.births, changes.deaths
+        );
+    }
+
+    static fromGrid(index: number, grid: boolean[][]): Generation {
+        const coords: number[] = [];
+        for (let x = 0; x < grid.length; x++) {
+            for (let y = 0; y < grid[x].length; y++) {
+                if (grid[x][y]) {
+                    coords.push(x, y);
+                }
+            }
+        }
+        return new Generation(index, grid.length, grid[0]?.length ?? 0, Int32Array.from(coords));
+    }
+
+    /**
+     * Ages, births and deaths are not stored in sessions; pass the previous generation to rebuild them.
+     */
+    static fromSerialized(data: SerializedGeneration, gridWidth: number, gridHeight: number, previous?: Generation): Generation {
+        let cells: GenerationCells;
+        if (data.coords) {
+            cells = {
+                coords: Int32Array.from(data.coords),
+                dyingCoords: data.dyingCoords ? Int32Array.from(data.dyingCoords) : NO_COORDS,
+                dyingStates: data.dyingStates ? Uint8Array.from(data.dyingStates) : NO_DYING_STATES
+            };
+        } else if (data.cells) {
+            cells = { coords: Generation.fromGrid(data.index, data.cells).coords, dyingCoords: NO_COORDS, dyingStates: NO_DYING_STATES };
+        } else {
+            const coords: number[] = [];
+            const sorted = [...(data.liveCells ?? [])].sort((a, b) => a.x - b.x || a.y - b.y);
+            for (const cell of sorted) {
+                coords.push(cell.x, cell.y);
+            }
+            cells = { coords: Int32Array.from(coords), dyingCoords: NO_COORDS, dyingStates: NO_DYING_STATES };
+        }
+        return Generation.fromCells(data.index, gridWidth, gridHeight, cells, previous);
+    }
+
+    get population(): number {
+        return this.coords.length >> 1;
+    }
+
+    get dyingCount(): number {
+        return this.dyingCoords.length >> 1;
+    }
+
+    /**
+     * Bounding box of the live cells, or null for an empty generation.
+     * In infinite plane mode this can extend beyond the grid in any direction.
+     */
+    getBounds(): CellBounds | null {
+        if (this.bounds === undefined) {
+            if (this.coords.length === 0) {
+                this.bounds = null;
+            } else {
+                // Coordinates are sorted by x, so only y needs scanning
+                let minY = this.coords[1];
+                let maxY = this.coords[1];
+                for (let i = 3; i < this.coords.length; i += 2) {
+                    minY = Math.min(minY, this.coords[i]);
+                    maxY = Math.max(maxY, this.coords[i]);
+                }
+                this.bounds = {
+                    minX: this.coords[0],
+                    maxX: this.coords[this.coords.length - 2],
+                    minY,
+                    maxY
+                };
+            }
+        }
+        return this.bounds;
+    }
+
+    /**
+     * Live cells of the width x height rectangle whose lowest corner is
+     * (minX, minY), as a pattern indexed [x - minX][y - minY].
+     */
+    getRegion(minX: number, minY: number, width: number, height: number): boolean[][] {
+        const region: boolean[][] = Array(width).fill(null).map(() => Array(height).fill(false));
+        for (let i = 0; i < this.coords.length; i += 2) {
+            const x = this.coords[i] - minX;
+            const y = this.coords[i + 1] - minY;
+            if (x >= 0 && x < width && y >= 0 && y < height) {
+                region[x][y] = true;
+            }
+        }
+        return region;
+    }
+
+    /**
+     * Compatibility accessor: builds a dense grid indexed [x][y] on every call.
+     * Cells outside the grid (infinite plane mode) are clipped.
+     * Prefer coords, forEachLiveCell or isAlive in hot paths.
+     */
+    get cells(): boolean[][] {
+        const grid: boolean[][] = Array(this.gridWidth).fill(null).map(() =>
+            Array(this.gridHeight).fill(false)
+        );
+        for (let i = 0; i < this.coords.length; i += 2) {
+            const x = this.coords[i];
+            const y = this.coords[i + 1];
+            if (x >= 0 && x < this.gridWidth && y >= 0 && y < this.gridHeight) {
+                grid[x][y] = true;
+            }
+        }
+        return grid;
+    }
+
+    /**
+     * Compatibility accessor: builds cell objects on every call.
+     */
+    get liveCells(): CellState[] {
+        const cells: CellState[] = [];
+        for (let i = 0; i < this.coords.length; i += 2) {
+            cells.push({ x: this.coords[i], y: this.coords[i + 1] });
+        }
+        return cells;
+    }
+
+    forEachLiveCell(callback: (x: number, y: number) => void): void {
+        for (let i = 0; i < this.coords.length; i += 2) {
+            callback(this.coords[i], this.coords[i + 1]);
+        }
+    }
+
+    forEachDyingCell(callback: (x: number, y: number, state: number) => void): void {
+        for (let i = 0; i < this.dyingStates.length; i++) {
+            callback(this.dyingCoords[i * 2], this.dyingCoords[i * 2 + 1], this.dyingStates[i]);
+        }
+    }
+
+    isAlive(x: number, y: number): boolean {
+        return findCell(this.coords, x, y) !== -1;
+    }
+
+    /**
+     * Generations the cell at (x, y) has survived, or -1 when it is not alive.
+     */
+    getAge(x: number, y: number): number {
+        const index = findCell(this.coords, x, y);
+        return index === -1 ? -1 : this.ages[index];
+    }
+
+    /**
+     * Cell state: 0 dead, 1 alive, 2 and up dying.
+     */
+    getState(x: number, y: number): number {
+        if (this.isAlive(x, y)) return 1;
+        const dyingIndex = findCell(this.dyingCoords, x, y);
+        return dyingIndex === -1 ? 0 : this.dyingStates[dyingIndex];
+    }
+
+    toJSON(): SerializedGeneration {
+        const data: SerializedGeneration = {
+            index: this.index,
+            coords: Array.from(this.coords)
+        };
+        if (this.dyingStates.length > 0) {
+            data.dyingCoords = Array.from(this.dyingCoords);
+            data.dyingStates = Array.from(this.dyingStates);
+        }
+        return data;
+    }
 }
 
 export interface Rule {
     name: string;
     birth: number[];
     survival: number[];
+    /** Generations rules: total state count including dead and alive (C in B/S/C). Two-state when omitted */
+    states?: number;
+    /** Range-1 neighborhood the counts refer to; Moore when omitted */
+    neighborhood?: Neighborhood;
+    /** Larger than Life rule; birth and survival then list the counts of its ranges */
+    ltl?: LargerThanLifeRule;
+}
+
+function largerThanLifeCounts(min: number, max: number): number[] {
+    return Array.from({ length: max - min + 1 }, (_, i) => min + i);
+}
+
+function largerThanLifePreset(name: string, rule: string): Rule {
+    const ltl = parseLargerThanLife(rule);
+    return {
+        name,
+        birth: largerThanLifeCounts(ltl.birthMin, ltl.birthMax),
+        survival: largerThanLifeCounts(ltl.survivalMin, ltl.survivalMax),
+        states: ltl.states,
+        ltl
+    };
 }
 
 export const RULE_PRESETS: Record<string, Rule> = {
@@ -25,52 +377,197 @@ export const RULE_PRESETS: Record<string, Rule> = {
     '2x2': { name: '2x2', birth: [3, 6], survival: [1, 2, 5] },
     'morley': { name: 'Morley', birth: [3, 6, 8], survival: [2, 4, 5] },
     'anneal': { name: 'Anneal', birth: [4, 6, 7, 8], survival: [3, 5, 6, 7, 8] },
+    'briansbrain': { name: "Brian's Brain", birth: [2], survival: [], states: 3 },
+    'starwars': { name: 'Star Wars', birth: [2], survival: [3, 4, 5], states: 4 },
+    'frogs': { name: 'Frogs', birth: [3, 4], survival: [1, 2], states: 3 },
+    'hexlife': { name: 'Hexagonal Life', birth: [2], survival: [3, 4], neighborhood: 'hexagonal' },
+    'parityvn': { name: 'Parity (von Neumann)', birth: [1, 3], survival: [1, 3], neighborhood: 'vonneumann' },
+    'bosco': largerThanLifePreset("Bosco's Rule", 'R5,C0,M1,S34..58,B34..45,NM'),
+    'majority': largerThanLifePreset('Majority', 'R4,C0,M1,S41..81,B41..81,NM'),
 };
 
+// Dying states are stored in a Uint8Array
+export const MAX_RULE_STATES = 255;
+
+/** Live cells of one generation that belong to a cell's lineage */
+export interface LineageLayer {
+    /** Position of the generation in the engine's list */
+    position: number;
+    /** Live cells as interleaved x, y pairs, sorted by x then y */
+    coords: Int32Array;
+}
+
+/**
+ * Causal past and future of a live cell, one layer per generation, nearest first.
+ * Only live cells are followed: the past holds the live cells whose neighborhoods
+ * reach the cell, the future the live cells whose neighborhoods it reaches.
+ */
+export interface Lineage {
+    past: LineageLayer[];
+    future: LineageLayer[];
+}
+
 export interface GameState {
-    gridSize: number;
-    generations: Generation[];
+    /** Grid size along x (pattern rows) */
+    gridWidth: number;
+    /** Grid size along y (pattern columns) */
+    gridHeight: number;
+    /** Square grid size written by older sessions; used when width and height are missing */
+    gridSize?: number;
+    generations: Array<Generation | SerializedGeneration>;
     currentGeneration: number;
+    boundary?: BoundaryMode;
+    /** Wrapping flag written by older sessions (true = torus); used when boundary is missing */
     toroidal?: boolean;
+    infinite?: boolean;
     ruleName?: string;
     birthRule?: number[];
     survivalRule?: number[];
+    /** Generations rule state count (C); two-state when omitted */
+    stateCount?: number;
+    /** Full rulestring; takes precedence over birthRule/survivalRule, which cannot express every rule */
+    ruleString?: string;
+    /** Generation 0, stored when the generations start later after a jump */
+    initialGeneration?: Generation | SerializedGeneration;
+    /** Seed of a random soup generation 0; with `soup`, rebuilds it when no generations are stored */
+    seed?: number;
+    soup?: SoupOptions;
+    /** Placements that generation 0 was built from (see Scene) */
+    scene?: ScenePlacement[];
 }
 
-const MAX_GENERATIONS = 1000;
+const MAX_GENERATIONS = 5000;
+
+// Jumps are refused when the result would not fit comfortably in memory
+// or would leave the coordinate range of sparse stepping
+const MAX_JUMP_POPULATION = 250000;
+const MAX_JUMP_COORDINATE = 1 << 23;
+
+// Infinite plane cells are keyed as (x + OFFSET) * SPAN + (y + OFFSET),
+// which stays within Number.MAX_SAFE_INTEGER for |x|, |y| < 2^24
+const SPARSE_KEY_OFFSET = 1 << 24;
+const SPARSE_KEY_SPAN = 1 << 25;
+
+// Larger than Life on the infinite plane counts over the bounding box up to this many cells
+const MAX_LTL_REGION_AREA = 1 << 22;
 
 export class GameEngine {
-    private gridSize: number;
+    private gridWidth: number;
+    private gridHeight: number;
     private generations: Generation[] = [];
-    private toroidal: boolean = false;
-    private birthRule: Set<number> = new Set([3]);
-    private survivalRule: Set<number> = new Set([2, 3]);
+    private initialGeneration: Generation | null = null;
+    private boundary: BoundaryMode = 'plane';
+    private infinite: boolean = false;
+    // Transition tables indexed by the 8-bit neighborhood mask (see HenselNotation)
+    private birthTable: Uint8Array = createTotalisticTable([3]);
+    private survivalTable: Uint8Array = createTotalisticTable([2, 3]);
+    private neighborhood: Neighborhood = 'moore';
+    // Set for Larger than Life rules, which replace the transition tables
+    private ltlRule: LargerThanLifeRule | null = null;
+    private stateCount: number = 2;
     private currentRuleName: string = 'conway';
+    // Set while generation 0 is a seeded soup
+    private seed: number | null = null;
+    private soup: SoupOptions | null = null;
+    private scene: ScenePlacement[] | null = null;
+    private periodicity = new PeriodicityDetector();
+
+    constructor(gridWidth: number = 50, gridHeight: number = gridWidth) {
+        this.gridWidth = gridWidth;
+        this.gridHeight = gridHeight;
+    }
 
-    constructor(gridSize: number = 50) {
-        this.gridSize = gridSize;
+    setBoundary(boundary: BoundaryMode): void {
+        this.boundary = boundary;
     }
 
-    setToroidal(enabled: boolean): void {
-        this.toroidal = enabled;
+    getBoundary(): BoundaryMode {
+        return this.boundary;
+    }
+
+    /**
+     * Infinite plane mode: live cells are stored sparsely and may leave the grid,
+     * which then only defines where patterns are placed. Takes precedence over the boundary mode.
+     */
+    setInfinite(enabled: boolean): void {
+        this.infinite = enabled;
     }
 
-    isToroidal(): boolean {
-        return this.toroidal;
+    isInfinite(): boolean {
+        return this.infinite;
     }
 
     setRule(ruleKey: string): void {
         const rule = RULE_PRESETS[ruleKey];
         if (rule) {
-            this.birthRule = new Set(rule.birth);
-            this.survivalRule = new Set(rule.survival);
+            this.neighborhood = rule.neighborhood ?? 'moore';
+            this.ltlRule = rule.ltl ? { ...rule.ltl } : null;
+            this.birthTable = createTotalisticTable(rule.birth, NEIGHBORHOOD_MASKS[this.neighborhood]);
+            this.survivalTable = createTotalisticTable(rule.survival, NEIGHBORHOOD_MASKS[this.neighborhood]);
+            this.stateCount = rule.states ?? 2;
             this.currentRuleName = ruleKey;
         }
     }
 
-    setCustomRule(birth: number[], survival: number[]): void {
-        this.birthRule = new Set(birth);
-        this.survivalRule = new Set(survival);
+    /**
+     * @param states Generations rule state count (C); 2 for ordinary two-state rules
+     */
+    setCustomRule(birth: number[], survival: number[], states: number = 2, neighborhood: Neighborhood = 'moore'): void {
+        this.neighborhood = neighborhood;
+        this.ltlRule = null;
+        this.birthTable = createTotalisticTable(birth, NEIGHBORHOOD_MASKS[neighborhood]);
+        this.survivalTable = createTotalisticTable(survival, NEIGHBORHOOD_MASKS[neighborhood]);
+        this.stateCount = Math.max(2, Math.min(MAX_RULE_STATES, Math.floor(states)));
+        this.currentRuleName = 'custom';
+    }
+
+    /**
+     * Sets a custom rule from a rulestring such as "B3/S23", "B2-a/S12" (Hensel
+     * notation for isotropic non-totalistic rules), "B2/S/C3", "B2/S34H"
+     * (V for von Neumann, H for hexagonal) or a Larger than Life rule like
+     * "R5,C0,M1,S34..58,B34..45,NM". Throws on invalid input.
+     */
+    setRuleString(rule: string): void {
+        const trimmed = rule.trim();
+        if (/^R\d/i.test(trimmed)) {
+            const ltl = parseLargerThanLife(trimmed, MAX_RULE_STATES);
+            this.neighborhood = ltl.neighborhood === 'N' ? 'vonneumann' : 'moore';
+            this.ltlRule = ltl;
+            this.stateCount = ltl.states;
+            this.currentRuleName = 'custom';
+            return;
+        }
+
+        const match = trimmed.match(/^[Bb]([0-8a-z-]*?)\/?[Ss]([0-8a-z-]*?)(?:(?:\/[Cc]|C)(\d+))?([VvHh]?)$/);
+        if (!match) {
+            throw new Error(`Invalid rule "${rule}"`);
+        }
+
+        const suffix = match[4].toUpperCase();
+        let birthTable: Uint8Array;
+        let survivalTable: Uint8Array;
+        let neighborhood: Neighborhood = 'moore';
+        if (suffix) {
+            // Only plain counts are defined for the smaller neighborhoods
+            neighborhood = suffix === 'V' ? 'vonneumann' : 'hexagonal';
+            const maxCount = suffix === 'V' ? 4 : 6;
+            for (const condition of [match[1], match[2]]) {
+                if (!new RegExp(`^[0-${maxCount}]*$`).test(condition)) {
+                    throw new Error(`"${condition}" is not valid for the ${suffix === 'V' ? 'von Neumann' : 'hexagonal'} neighborhood (digits 0-${maxCount})`);
+                }
+            }
+            birthTable = createTotalisticTable(match[1].split('').map(Number), NEIGHBORHOOD_MASKS[neighborhood]);
+            survivalTable = createTotalisticTable(match[2].split('').map(Number), NEIGHBORHOOD_MASKS[neighborhood]);
+        } else {
+            birthTable = parseCondition(match[1]);
+            survivalTable = parseCondition(match[2]);
+        }
+
+        this.neighborhood = neighborhood;
+        this.ltlRule = null;
+        this.birthTable = birthTable;
+        this.survivalTable = survivalTable;
+        this.stateCount = match[3] ? Math.max(2, Math.min(MAX_RULE_STATES, parseInt(match[3], 10))) : 2;
         this.currentRuleName = 'custom';
     }
 
@@ -79,62 +576,435 @@ export class GameEngine {
     }
 
     getRuleString(): string {
-        const b = Array.from(this.birthRule).sort((a, c) => a - c).join('');
-        const s = Array.from(this.survivalRule).sort((a, c) => a - c).join('');
-        return `B${b}/S${s}`;
+        if (this.ltlRule) {
+            return formatLargerThanLife(this.ltlRule);
+        }
+        const b = this.getBirthCondition();
+        const s = this.getSurvivalCondition();
+        const rule = this.stateCount > 2 ? `B${b}/S${s}/C${this.stateCount}` : `B${b}/S${s}`;
+        return rule + this.getNeighborhoodSuffix();
+    }
+
+    /** Birth condition: Hensel notation such as "3" or "2-a", or a range such as "34..45" for Larger than Life */
+    getBirthCondition(): string {
+        if (this.ltlRule) {
+            return `${this.ltlRule.birthMin}..${this.ltlRule.birthMax}`;
+        }
+        return this.neighborhood === 'moore'
+            ? formatCondition(this.birthTable)
+            : this.getBirthRule().join('');
+    }
+
+    /** Survival condition, in the same notation as getBirthCondition */
+    getSurvivalCondition(): string {
+        if (this.ltlRule) {
+            return `${this.ltlRule.survivalMin}..${this.ltlRule.survivalMax}`;
+        }
+        return this.neighborhood === 'moore'
+            ? formatCondition(this.survivalTable)
+            : this.getSurvivalRule().join('');
+    }
+
+    getNeighborhood(): Neighborhood {
+        return this.neighborhood;
+    }
+
+    /** Neighborhood range: 1 unless a Larger than Life rule is active */
+    getRange(): number {
+        return this.ltlRule?.range ?? 1;
     }
 
+    getLargerThanLifeRule(): LargerThanLifeRule | null {
+        return this.ltlRule ? { ...this.ltlRule } : null;
+    }
+
+    /** Neighbor counts with at least one birth neighborhood */
     getBirthRule(): number[] {
-        return Array.from(this.birthRule);
+        if (this.ltlRule) {
+            return largerThanLifeCounts(this.ltlRule.birthMin, this.ltlRule.birthMax);
+        }
+        return getEnabledCounts(this.birthTable, NEIGHBORHOOD_MASKS[this.neighborhood]);
     }
 
+    /** Neighbor counts with at least one survival neighborhood */
     getSurvivalRule(): number[] {
-        return Array.from(this.survivalRule);
+        if (this.ltlRule) {
+            return largerThanLifeCounts(this.ltlRule.survivalMin, this.ltlRule.survivalMax);
+        }
+        return getEnabledCounts(this.survivalTable, NEIGHBORHOOD_MASKS[this.neighborhood]);
+    }
+
+    private getNeighborhoodSuffix(): string {
+        switch (this.neighborhood) {
+            case 'vonneumann': return 'V';
+            case 'hexagonal': return 'H';
+            default: return '';
+        }
+    }
+
+    getStateCount(): number {
+        return this.stateCount;
     }
 
     getMaxGenerations(): number {
         return MAX_GENERATIONS;
     }
 
-    setGridSize(size: number): void {
-        this.gridSize = size;
+    setGridSize(width: number, height: number = width): void {
+        this.gridWidth = width;
+        this.gridHeight = height;
         this.generations = [];
+        this.initialGeneration = null;
+        this.seed = null;
+        this.soup = null;
+        this.scene = null;
     }
 
-    getGridSize(): number {
-        return this.gridSize;
+    getGridWidth(): number {
+        return this.gridWidth;
+    }
+
+    getGridHeight(): number {
+        return this.gridHeight;
     }
 
     initializeFromPattern(pattern: boolean[][]): void {
         this.generations = [];
-        const grid = this.createEmptyGrid();
+        this.initialGeneration = null;
+        this.seed = null;
+        this.soup = null;
+        this.scene = null;
+        const alive = new Uint8Array(this.gridWidth * this.gridHeight);
 
-        const startX = Math.floor((this.gridSize - pattern.length) / 2);
-        const startY = Math.floor((this.gridSize - pattern[0].length) / 2);
+        const startX = Math.floor((this.gridWidth - pattern.length) / 2);
+        const startY = Math.floor((this.gridHeight - pattern[0].length) / 2);
 
         for (let i = 0; i < pattern.length; i++) {
             for (let j = 0; j < pattern[i].length; j++) {
-                if (startX + i >= 0 && startX + i < this.gridSize &&
-                    startY + j >= 0 && startY + j < this.gridSize) {
-                    grid[startX + i][startY + j] = pattern[i][j];
+                if (startX + i >= 0 && startX + i < this.gridWidth &&
+                    startY + j >= 0 && startY + j < this.gridHeight &&
+                    pattern[i][j]) {
+                    alive[(startX + i) * this.gridHeight + startY + j] = 1;
                 }
             }
         }
 
-        this.addGeneration(grid);
+        this.addGeneration(this.collectCells(alive));
     }
 
-    initializeRandom(density: number = 0.3): void {
+    /**
+     * Starts from a sparse pattern: live cells as interleaved x, y pairs inside
+     * a width x height box, centered the way initializeFromPattern centers
+     * patterns. Cells beyond the grid are kept on the infinite plane and
+     * dropped otherwise.
+     */
+    initializeFromCells(cells: Int32Array, width: number, height: number): void {
+        const startX = Math.floor((this.gridWidth - width) / 2);
+        const startY = Math.floor((this.gridHeight - height) / 2);
+
+        const keys: number[] = [];
+        for (let i = 0; i < cells.length; i += 2) {
+            const x = startX + cells[i];
+            const y = startY + cells[i + 1];
+            if (!this.infinite && (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight)) continue;
+            if (Math.abs(x) >= MAX_JUMP_COORDINATE || Math.abs(y) >= MAX_JUMP_COORDINATE) {
+                throw new Error('Pattern spreads too far to place on the plane');
+            }
+            keys.push(this.sparseKey(x, y));
+        }
+
         this.generations = [];
-        const grid = this.createEmptyGrid();
+        this.initialGeneration = null;
+        this.seed = null;
+        this.soup = null;
+        this.scene = null;
+        this.addGeneration(this.collectSparseCells(keys, new Map()));
+    }
+
+    /**
+     * Fills the whole grid with random cells; the same seed gives the same grid.
+     */
+    initializeRandom(density: number = 0.3, seed: number = createSeed()): void {
+        this.initializeSoup(seed, {
+            size: Math.max(this.gridWidth, this.gridHeight),
+            density,
+            symmetry: 'C1'
+        });
+    }
+
+    /**
+     * Fills a centered N x N region with a seeded random soup (see Soup).
+     */
+    initializeSoup(seed: number, options: SoupOptions = DEFAULT_SOUP): void {
+        this.initializeFromPattern(generateSoup(seed, options));
+        this.seed = seed >>> 0;
+        this.soup = { ...options };
+    }
 
-        for (let x = 0; x < this.gridSize; x++) {
-            for (let y = 0; y < this.gridSize; y++) {
-                grid[x][y] = Math.random() < density;
+    /**
+     * Builds generation 0 from several patterns, each flipped, rotated and
+     * advanced by its phase before being placed at its offset. Cells beyond
+     * the grid are kept on the infinite plane and dropped otherwise. Throws
+     * when a pattern cannot be read.
+     */
+    initializeScene(scene: ScenePlacement[], patternLoader: PatternLoader): void {
+        const cells: number[] = [];
+        for (const placement of scene) {
+            const coords = this.advancePattern(placementPattern(placement, patternLoader), placement.phase);
+            for (let i = 0; i < coords.length; i += 2) {
+                cells.push(placement.x + coords[i], placement.y + coords[i + 1]);
+            }
+        }
+
+        if (this.infinite) {
+            // Placements may overlap, so each cell is keyed once
+            const keys = new Set<number>();
+            for (let i = 0; i < cells.length; i += 2) {
+                if (Math.abs(cells[i]) >= MAX_JUMP_COORDINATE || Math.abs(cells[i + 1]) >= MAX_JUMP_COORDINATE) {
+                    throw new Error('Scene spreads too far to place on the plane');
+                }
+                keys.add(this.sparseKey(cells[i], cells[i + 1]));
             }
+            this.replaceInitialGeneration(this.collectSparseCells(Array.from(keys), new Map()).coords);
+        } else {
+            this.replaceInitialGeneration(NO_COORDS);
+            this.setCells(Int32Array.from(cells), true);
         }
+        this.scene = scene.map(placement => ({ ...placement }));
+    }
+
+    getScene(): ScenePlacement[] | null {
+        return this.scene ? this.scene.map(placement => ({ ...placement })) : null;
+    }
+
+    /**
+     * Live cells of a pattern after `phase` generations under the current
+     * rule, relative to its [0][0] cell. It runs alone on an infinite plane,
+     * so nothing else in the scene or the grid edges affect it.
+     */
+    private advancePattern(pattern: boolean[][], phase: number): Int32Array {
+        const scratch = new GameEngine(pattern.length, pattern[0].length);
+        scratch.birthTable = this.birthTable;
+        scratch.survivalTable = this.survivalTable;
+        scratch.neighborhood = this.neighborhood;
+        scratch.ltlRule = this.ltlRule;
+        scratch.stateCount = this.stateCount;
+        scratch.setInfinite(true);
+        scratch.initializeFromPattern(pattern);
+        scratch.computeGenerations(phase + 1);
+        return scratch.generations[Math.min(phase, scratch.generations.length - 1)].coords;
+    }
+
+    getSeed(): number | null {
+        return this.seed;
+    }
+
+    getSoupOptions(): SoupOptions | null {
+        return this.soup ? { ...this.soup } : null;
+    }
+
+    /**
+     * Drops every generation after generation 0 so it can be recomputed.
+     * After a jump this returns to the real generation 0.
+     */
+    resetToInitialGeneration(): void {
+        if (this.initialGeneration) {
+            this.generations = [this.initialGeneration];
+            this.initialGeneration = null;
+        } else {
+            this.generations = this.generations.slice(0, 1);
+        }
+    }
+
+    /**
+     * Number of the first stored generation. Non-zero after jumpToGeneration.
+     */
+    getGenerationOffset(): number {
+        return this.generations.length > 0 ? this.generations[0].index : 0;
+    }
 
-        this.addGeneration(grid);
+    /**
+     * Whether the current configuration can be advanced with HashLife.
+     */
+    canJump(): boolean {
+        return this.infinite && !this.ltlRule && this.birthTable[0] === 0 && this.stateCount === 2;
+    }
+
+    /**
+     * Computes generation `target` (counted from generation 0) with HashLife and
+     * makes it the first stored generation. Later generations can then be computed
+     * as usual to fill a window for display. Requires infinite plane mode.
+     */
+    jumpToGeneration(target: number): void {
+        if (this.generations.length === 0) {
+            throw new Error('No initial generation set. Call initializeFromPattern or initializeRandom first.');
+        }
+        if (!this.infinite) {
+            throw new Error('Jumping ahead requires infinite plane mode');
+        }
+        if (!Number.isSafeInteger(target) || target < 0) {
+            throw new Error(`Invalid target generation: ${target}`);
+        }
+        if (this.stateCount > 2) {
+            throw new Error('HashLife only supports two-state rules');
+        }
+        if (this.ltlRule) {
+            throw new Error('HashLife does not support Larger than Life rules');
+        }
+
+        const initial = this.initialGeneration ?? this.generations[0];
+        const hashLife = new HashLife(this.birthTable, this.survivalTable);
+        hashLife.setCells(initial.coords);
+        hashLife.advance(target);
+
+        if (hashLife.getPopulation() > MAX_JUMP_POPULATION) {
+            throw new Error(`Generation ${target} has ${hashLife.getPopulation()} live cells, more than the ${MAX_JUMP_POPULATION} that can be displayed`);
+        }
+
+        const coords = hashLife.getCoords();
+        for (let i = 0; i < coords.length; i++) {
+            if (Math.abs(coords[i]) >= MAX_JUMP_COORDINATE) {
+                throw new Error(`Generation ${target} has spread too far from the origin to display`);
+            }
+        }
+
+        this.startFromGeneration(target, coords);
+    }
+
+    /**
+     * Replaces the stored generations with a single generation `index`,
+     * remembering generation 0 so the jump can be undone.
+     */
+    protected startFromGeneration(index: number, coords: Int32Array): void {
+        const initial = this.initialGeneration ?? this.generations[0];
+        this.initialGeneration = index > 0 ? initial : null;
+        this.generations = [index > 0 ? new Generation(index, this.gridWidth, this.gridHeight, coords) : initial];
+    }
+
+    /**
+     * Generation 0 of the current run, even after a jump.
+     */
+    getInitialGeneration(): Generation | null {
+        return this.initialGeneration ?? this.generations[0] ?? null;
+    }
+
+    /**
+     * Whether (x, y) is alive in generation 0.
+     */
+    getCellState(x: number, y: number): boolean {
+        return this.getInitialGeneration()?.isAlive(x, y) ?? false;
+    }
+
+    /**
+     * Sets one cell of generation 0 and drops the later generations, which no
+     * longer follow from it. Returns false when (x, y) is outside the grid or
+     * the cell is already in that state.
+     */
+    setCell(x: number, y: number, alive: boolean): boolean {
+        return this.setCells(Int32Array.of(x, y), alive) > 0;
+    }
+
+    /**
+     * Sets many cells of generation 0 at once, given as interleaved x, y
+     * pairs. Cells outside the grid are ignored unless `offGrid` is set on
+     * the infinite plane. Returns the number of cells that changed; the later
+     * generations are dropped unless that is 0.
+     */
+    setCells(cells: Int32Array, alive: boolean, offGrid: boolean = false): number {
+        const coords = this.getInitialGeneration()?.coords ?? NO_COORDS;
+
+        const changed: Array<[number, number]> = [];
+        for (let i = 0; i < cells.length; i += 2) {
+            const x = cells[i];
+            const y = cells[i + 1];
+            const inGrid = x >= 0 && x < this.gridWidth && y >= 0 && y < this.gridHeight;
+            if (!inGrid && !(offGrid && this.infinite)) continue;
+            if ((findCell(coords, x, y) !== -1) !== alive) {
+                changed.push([x, y]);
+            }
+        }
+        if (changed.length === 0) return 0;
+
+        changed.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+        const edits: number[] = [];
+        for (let i = 0; i < changed.length; i++) {
+            if (i > 0 && changed[i][0] === changed[i - 1][0] && changed[i][1] === changed[i - 1][1]) continue;
+            edits.push(changed[i][0], changed[i][1]);
+        }
+
+        // Merge the sorted edits into the sorted live cells
+        const edited = new Int32Array(alive ? coords.length + edits.length : coords.length - edits.length);
+        let n = 0;
+        let i = 0;
+        let j = 0;
+        while (i < coords.length || j < edits.length) {
+            let order: number;
+            if (i >= coords.length) {
+                order = 1;
+            } else if (j >= edits.length) {
+                order = -1;
+            } else {
+                order = coords[i] - edits[j] || coords[i + 1] - edits[j + 1];
+            }
+            if (order < 0) {
+                edited[n++] = coords[i++];
+                edited[n++] = coords[i++];
+            } else if (order > 0) {
+                edited[n++] = edits[j++];
+                edited[n++] = edits[j++];
+            } else {
+                // Only cells being killed are in both lists
+                i += 2;
+                j += 2;
+            }
+        }
+        this.replaceInitialGeneration(edited);
+        return edits.length >> 1;
+    }
+
+    /**
+     * Flips one cell of generation 0 and returns its new state.
+     */
+    toggleCell(x: number, y: number): boolean {
+        const alive = !this.getCellState(x, y);
+        return this.setCell(x, y, alive) ? alive : !alive;
+    }
+
+    /**
+     * Adds the live cells of a pattern to generation 0 with its [0][0] cell at
+     * (x, y), leaving the cells already there. Cells beyond the grid are kept
+     * on the infinite plane. Returns the number of cells that changed.
+     */
+    stampPattern(pattern: boolean[][], x: number, y: number): number {
+        const cells: number[] = [];
+        for (let i = 0; i < pattern.length; i++) {
+            for (let j = 0; j < pattern[i].length; j++) {
+                if (pattern[i][j]) {
+                    cells.push(x + i, y + j);
+                }
+            }
+        }
+        return this.setCells(Int32Array.from(cells), true, true);
+    }
+
+    /**
+     * Empties generation 0, keeping the grid, rule and boundary.
+     */
+    clearAllCells(): void {
+        this.replaceInitialGeneration(NO_COORDS);
+    }
+
+    /**
+     * Starts over from an edited generation 0. Dying cells are dropped, and the
+     * pattern no longer comes from a seed.
+     */
+    private replaceInitialGeneration(coords: Int32Array): void {
+        this.generations = [];
+        this.initialGeneration = null;
+        this.seed = null;
+        this.soup = null;
+        this.scene = null;
+        this.addGeneration({ coords, dyingCoords: NO_COORDS, dyingStates: NO_DYING_STATES });
     }
 
     computeGenerations(count: number): void {
@@ -145,9 +1015,7 @@ export class GameEngine {
         const targetCount = Math.min(count, MAX_GENERATIONS);
 
         for (let i = this.generations.length; i < targetCount; i++) {
-            const currentGrid = this.generations[i - 1].cells;
-            const nextGrid = this.computeNextGeneration(currentGrid);
-            this.addGeneration(nextGrid);
+            this.addGeneration(this.computeNextGeneration(this.generations[i - 1]));
         }
     }
 
@@ -164,84 +1032,321 @@ export class GameEngine {
             return false;
         }
 
-        const currentGrid = this.generations[this.generations.length - 1].cells;
-        const nextGrid = this.computeNextGeneration(currentGrid);
-        this.addGeneration(nextGrid);
+        this.addGeneration(this.computeNextGeneration(this.generations[this.generations.length - 1]));
         return true;
     }
 
-    private createEmptyGrid(): boolean[][] {
-        return Array(this.gridSize).fill(null).map(() =>
-            Array(this.gridSize).fill(false)
-        );
+    protected addGeneration(cells: GenerationCells): void {
+        const previous = this.generations[this.generations.length - 1];
+        this.generations.push(Generation.fromCells(
+            this.getGenerationOffset() + this.generations.length, this.gridWidth, this.gridHeight, cells, previous
+        ));
     }
 
-    private addGeneration(grid: boolean[][]): void {
-        const liveCells: CellState[] = [];
+    /**
+     * Converts a dense x-major state buffer (0 dead, 1 alive, 2+ dying)
+     * into sorted coordinate pairs.
+     */
+    private collectCells(states: Uint8Array): GenerationCells {
+        let population = 0;
+        let dyingCount = 0;
+        for (let i = 0; i < states.length; i++) {
+            if (states[i] === 1) {
+                population++;
+            } else if (states[i] > 1) {
+                dyingCount++;
+            }
+        }
 
-        for (let x = 0; x < this.gridSize; x++) {
-            for (let y = 0; y < this.gridSize; y++) {
-                if (grid[x][y]) {
-                    liveCells.push({ x, y });
-                }
+        const coords = new Int32Array(population * 2);
+        const dyingCoords = dyingCount > 0 ? new Int32Array(dyingCount * 2) : NO_COORDS;
+        const dyingStates = dyingCount > 0 ? new Uint8Array(dyingCount) : NO_DYING_STATES;
+        let offset = 0;
+        let dyingIndex = 0;
+        for (let i = 0; i < states.length; i++) {
+            if (states[i] === 1) {
+                coords[offset++] = Math.floor(i / this.gridHeight);
+                coords[offset++] = i % this.gridHeight;
+            } else if (states[i] > 1) {
+                dyingCoords[dyingIndex * 2] = Math.floor(i / this.gridHeight);
+                dyingCoords[dyingIndex * 2 + 1] = i % this.gridHeight;
+                dyingStates[dyingIndex++] = states[i];
             }
         }
+        return { coords, dyingCoords, dyingStates };
+    }
 
-        this.generations.push({
-            index: this.generations.length,
-            cells: grid,
-            liveCells
-        });
+    /**
+     * State a dying cell moves to next; the last dying state turns dead.
+     * A live cell that fails to survive enters state 2 (or dies outright in two-state rules).
+     */
+    private nextDyingState(state: number): number {
+        return state + 1 < this.stateCount ? state + 1 : 0;
     }
 
-    private computeNextGeneration(currentGrid: boolean[][]): boolean[][] {
-        const nextGrid = this.createEmptyGrid();
+    private computeNextGeneration(current: Generation): GenerationCells {
+        if (this.ltlRule) {
+            return this.computeNextRangeGeneration(current, this.ltlRule);
+        }
+        if (this.infinite) {
+            return this.computeNextSparseGeneration(current);
+        }
+
+        const width = this.gridWidth;
+        const height = this.gridHeight;
+        const alive = new Uint8Array(width * height);
+        current.forEachLiveCell((x, y) => {
+            alive[x * height + y] = 1;
+        });
+        const dying = new Uint8Array(width * height);
+        current.forEachDyingCell((x, y, state) => {
+            if (x >= 0 && x < width && y >= 0 && y < height) {
+                dying[x * height + y] = state;
+            }
+        });
+
+        const next = new Uint8Array(width * height);
+
+        for (let x = 0; x < width; x++) {
+            for (let y = 0; y < height; y++) {
+                const i = x * height + y;
+
+                // Dying cells count as dead neighbors but cannot be reborn until fully dead
+                if (dying[i] > 1) {
+                    next[i] = this.nextDyingState(dying[i]);
+                    continue;
+                }
 
-        for (let x = 0; x < this.gridSize; x++) {
-            for (let y = 0; y < this.gridSize; y++) {
-                const neighbors = this.countLiveNeighbors(currentGrid, x, y);
-                const isAlive = currentGrid[x][y];
+                const mask = this.getNeighborhoodMask(alive, x, y);
+                const isAlive = alive[i] === 1;
 
                 if (isAlive) {
-                    nextGrid[x][y] = this.survivalRule.has(neighbors);
+                    next[i] = this.survivalTable[mask] ? 1 : this.nextDyingState(1);
                 } else {
-                    nextGrid[x][y] = this.birthRule.has(neighbors);
+                    next[i] = this.birthTable[mask];
                 }
             }
         }
 
-        return nextGrid;
+        return this.collectCells(next);
     }
 
-    private countLiveNeighbors(grid: boolean[][], x: number, y: number): number {
-        let count = 0;
+    /**
+     * Infinite plane step: only cells next to live cells are visited, so the cost
+     * follows the population rather than the area. Birth on 0 neighbors (B0) cannot
+     * be represented on an unbounded plane and is ignored.
+     */
+    private computeNextSparseGeneration(current: Generation): GenerationCells {
+        // Each entry holds neighborhood mask * 2 + (1 if the cell itself is alive)
+        const counts = new Map<number, number>();
+        const coords = current.coords;
 
-        for (let dx = -1; dx <= 1; dx++) {
-            for (let dy = -1; dy <= 1; dy++) {
-                if (dx === 0 && dy === 0) continue;
+        for (let i = 0; i < coords.length; i += 2) {
+            const x = coords[i];
+            const y = coords[i + 1];
+            const key = this.sparseKey(x, y);
+            counts.set(key, (counts.get(key) ?? 0) + 1);
 
-                let nx = x + dx;
-                let ny = y + dy;
+            for (let dx = -1; dx <= 1; dx++) {
+                for (let dy = -1; dy <= 1; dy++) {
+                    if (dx === 0 && dy === 0) continue;
+                    // The neighbor sees this cell at the opposite offset
+                    const neighborKey = key + dx * SPARSE_KEY_SPAN + dy;
+                    counts.set(neighborKey, (counts.get(neighborKey) ?? 0) + (2 << neighborBit(-dx, -dy)));
+                }
+            }
+        }
 
-                if (this.toroidal) {
-                    // Wrap around edges
-                    nx = (nx + this.gridSize) % this.gridSize;
-                    ny = (ny + this.gridSize) % this.gridSize;
-                    if (grid[nx][ny]) {
-                        count++;
-                    }
+        // Dying cells advance on their own and block births on their position
+        const nextDying = new Map<number, number>();
+        current.forEachDyingCell((x, y, state) => {
+            nextDying.set(this.sparseKey(x, y), this.nextDyingState(state));
+        });
+
+        const liveKeys: number[] = [];
+        counts.forEach((value, key) => {
+            const mask = value >> 1;
+            const isAlive = (value & 1) === 1;
+            if (isAlive) {
+                if (this.survivalTable[mask]) {
+                    liveKeys.push(key);
                 } else {
-                    // Finite boundaries - out of bounds cells are dead
-                    if (nx >= 0 && nx < this.gridSize &&
-                        ny >= 0 && ny < this.gridSize &&
-                        grid[nx][ny]) {
-                        count++;
+                    nextDying.set(key, this.nextDyingState(1));
+                }
+            } else if (mask > 0 && this.birthTable[mask] && !nextDying.has(key)) {
+                liveKeys.push(key);
+            }
+        });
+
+        return this.collectSparseCells(liveKeys, nextDying);
+    }
+
+    private sparseKey(x: number, y: number): number {
+        return (x + SPARSE_KEY_OFFSET) * SPARSE_KEY_SPAN + (y + SPARSE_KEY_OFFSET);
+    }
+
+    /**
+     * Converts live and dying cell keys back into generation cells.
+     */
+    private collectSparseCells(liveKeys: number[], nextDying: Map<number, number>): GenerationCells {
+        const dyingKeys: number[] = [];
+        nextDying.forEach((state, key) => {
+            if (state > 1) {
+                dyingKeys.push(key);
+            }
+        });
+
+        // Keys order by x, then y, matching the dense layout
+        liveKeys.sort((a, b) => a - b);
+        dyingKeys.sort((a, b) => a - b);
+
+        const next = new Int32Array(liveKeys.length * 2);
+        for (let i = 0; i < liveKeys.length; i++) {
+            const key = liveKeys[i];
+            next[i * 2] = Math.floor(key / SPARSE_KEY_SPAN) - SPARSE_KEY_OFFSET;
+            next[i * 2 + 1] = (key % SPARSE_KEY_SPAN) - SPARSE_KEY_OFFSET;
+        }
+
+        if (dyingKeys.length === 0) {
+            return { coords: next, dyingCoords: NO_COORDS, dyingStates: NO_DYING_STATES };
+        }
+
+        const dyingCoords = new Int32Array(dyingKeys.length * 2);
+        const dyingStates = new Uint8Array(dyingKeys.length);
+        for (let i = 0; i < dyingKeys.length; i++) {
+            const key = dyingKeys[i];
+            dyingCoords[i * 2] = Math.floor(key / SPARSE_KEY_SPAN) - SPARSE_KEY_OFFSET;
+            dyingCoords[i * 2 + 1] = (key % SPARSE_KEY_SPAN) - SPARSE_KEY_OFFSET;
+            dyingStates[i] = nextDying.get(key)!;
+        }
+        return { coords: next, dyingCoords, dyingStates };
+    }
+
+    /**
+     * Larger than Life step on the bounded grid, with neighbor counts from
+     * LargerThanLife's prefix sums.
+     */
+    private computeNextRangeGeneration(current: Generation, rule: LargerThanLifeRule): GenerationCells {
+        if (this.infinite) {
+            return this.computeNextInfiniteRangeGeneration(current, rule);
+        }
+
+        const width = this.gridWidth;
+        const height = this.gridHeight;
+        const alive = new Uint8Array(width * height);
+        current.forEachLiveCell((x, y) => {
+            alive[x * height + y] = 1;
+        });
+        const dying = new Uint8Array(width * height);
+        current.forEachDyingCell((x, y, state) => {
+            if (x >= 0 && x < width && y >= 0 && y < height) {
+                dying[x * height + y] = state;
+            }
+        });
+
+        const counts = countRangeNeighbors(alive, width, height, rule, this.boundary);
+        const next = new Uint8Array(width * height);
+        for (let i = 0; i < next.length; i++) {
+            next[i] = dying[i] > 1
+                ? this.nextDyingState(dying[i])
+                : this.nextRangeState(rule, alive[i] === 1, counts[i]);
+        }
+        return this.collectCells(next);
+    }
+
+    /**
+     * Larger than Life step on the infinite plane. Counts come from a dense grid
+     * over the live cells' bounding box grown by the range; when that box is too
+     * large, every neighborhood is visited instead, as in the sparse stepper.
+     */
+    private computeNextInfiniteRangeGeneration(current: Generation, rule: LargerThanLifeRule): GenerationCells {
+        // Key -> count * 2 + (1 if the cell itself is alive)
+        const cells = new Map<number, number>();
+        const bounds = current.getBounds();
+
+        if (bounds) {
+            const originX = bounds.minX - rule.range;
+            const originY = bounds.minY - rule.range;
+            const width = bounds.maxX - bounds.minX + 1 + 2 * rule.range;
+            const height = bounds.maxY - bounds.minY + 1 + 2 * rule.range;
+
+            if (width * height <= MAX_LTL_REGION_AREA) {
+                const alive = new Uint8Array(width * height);
+                current.forEachLiveCell((x, y) => {
+                    alive[(x - originX) * height + (y - originY)] = 1;
+                });
+                const counts = countRangeNeighbors(alive, width, height, rule, 'plane');
+                for (let x = 0; x < width; x++) {
+                    for (let y = 0; y < height; y++) {
+                        const i = x * height + y;
+                        if (counts[i] > 0 || alive[i]) {
+                            cells.set(this.sparseKey(x + originX, y + originY), counts[i] * 2 + alive[i]);
+                        }
                     }
                 }
+            } else {
+                const offsets = getRangeOffsets(rule);
+                current.forEachLiveCell((x, y) => {
+                    const key = this.sparseKey(x, y);
+                    cells.set(key, (cells.get(key) ?? 0) + 1);
+                    for (const [dx, dy] of offsets) {
+                        const neighborKey = key + dx * SPARSE_KEY_SPAN + dy;
+                        cells.set(neighborKey, (cells.get(neighborKey) ?? 0) + 2);
+                    }
+                });
             }
         }
 
-        return count;
+        // Dying cells advance on their own and block births on their position
+        const nextDying = new Map<number, number>();
+        current.forEachDyingCell((x, y, state) => {
+            nextDying.set(this.sparseKey(x, y), this.nextDyingState(state));
+        });
+
+        const liveKeys: number[] = [];
+        cells.forEach((value, key) => {
+            const isAlive = (value & 1) === 1;
+            // As with B0, births need at least one live cell in range
+            if (!isAlive && (value < 2 || nextDying.has(key))) return;
+
+            const state = this.nextRangeState(rule, isAlive, value >> 1);
+            if (state === 1) {
+                liveKeys.push(key);
+            } else if (state > 1) {
+                nextDying.set(key, state);
+            }
+        });
+
+        return this.collectSparseCells(liveKeys, nextDying);
+    }
+
+    /**
+     * Next state of a live or dead (not dying) cell under a Larger than Life rule.
+     */
+    private nextRangeState(rule: LargerThanLifeRule, isAlive: boolean, count: number): number {
+        if (isAlive) {
+            return count >= rule.survivalMin && count <= rule.survivalMax ? 1 : this.nextDyingState(1);
+        }
+        return count >= rule.birthMin && count <= rule.birthMax ? 1 : 0;
+    }
+
+    /**
+     * Bit mask of the live Moore neighbors of (x, y), in HenselNotation bit order.
+     */
+    private getNeighborhoodMask(alive: Uint8Array, x: number, y: number): number {
+        let mask = 0;
+
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                if (dx === 0 && dy === 0) continue;
+
+                // Beyond the edges, cells are dead or wrap around depending on the boundary mode
+                const index = resolveBoundaryCell(x + dx, y + dy, this.gridWidth, this.gridHeight, this.boundary);
+                if (index >= 0 && alive[index]) mask |= 1 << neighborBit(dx, dy);
+            }
+        }
+
+        return mask;
     }
 
     getGeneration(index: number): Generation | null {
@@ -259,32 +1364,157 @@ export class GameEngine {
         return this.generations.length;
     }
 
+    /**
+     * Lineage of the live cell at (x, y) in the generation at `position`, traced
+     * back to position `first` and forward to position `last`. Empty when the
+     * cell is not alive there.
+     */
+    getLineage(position: number, x: number, y: number, first: number = 0, last: number = this.generations.length - 1): Lineage {
+        const lineage: Lineage = { past: [], future: [] };
+        const generation = this.generations[position];
+        if (!generation || !generation.isAlive(x, y)) return lineage;
+
+        // A cell's next state depends on its own state and its neighborhood
+        let offsets: Array<[number, number]>;
+        if (this.ltlRule) {
+            offsets = getRangeOffsets(this.ltlRule).filter(([dx, dy]) => dx !== 0 || dy !== 0);
+        } else {
+            const mask = NEIGHBORHOOD_MASKS[this.neighborhood];
+            offsets = [];
+            for (let dx = -1; dx <= 1; dx++) {
+                for (let dy = -1; dy <= 1; dy++) {
+                    const bit = neighborBit(dx, dy);
+                    if (bit >= 0 && (mask & (1 << bit))) offsets.push([dx, dy]);
+                }
+            }
+        }
+        offsets.push([0, 0]);
+
+        const start = Int32Array.of(x, y);
+        lineage.past = this.traceLineage(start, position, Math.max(0, first), -1, offsets);
+        lineage.future = this.traceLineage(start, position, Math.min(this.generations.length - 1, last), 1, offsets);
+        return lineage;
+    }
+
+    /**
+     * Follows live cells one generation at a time from `from` toward `to`
+     * (step -1 for the past, 1 for the future) until none are left.
+     */
+    private traceLineage(cells: Int32Array, from: number, to: number, step: number, offsets: Array<[number, number]>): LineageLayer[] {
+        const layers: LineageLayer[] = [];
+        // Looking back, the cell at c depended on c + offset; looking forward it affects c - offset
+        const sign = step < 0 ? 1 : -1;
+
+        for (let position = from + step; step < 0 ? position >= to : position <= to; position += step) {
+            const generation = this.generations[position];
+            const seen = new Set<number>();
+            const found: number[] = [];
+
+            for (let i = 0; i < cells.length; i += 2) {
+                for (const [dx, dy] of offsets) {
+                    let nx = cells[i] + sign * dx;
+                    let ny = cells[i + 1] + sign * dy;
+                    if (!this.infinite) {
+                        const index = resolveBoundaryCell(nx, ny, this.gridWidth, this.gridHeight, this.boundary);
+                        if (index < 0) continue;
+                        nx = Math.floor(index / this.gridHeight);
+                        ny = index % this.gridHeight;
+                    }
+
+                    const key = this.sparseKey(nx, ny);
+                    if (seen.has(key)) continue;
+                    seen.add(key);
+                    if (generation.isAlive(nx, ny)) {
+                        found.push(nx, ny);
+                    }
+                }
+            }
+            if (found.length === 0) break;
+
+            const pairs: Array<[number, number]> = [];
+            for (let i = 0; i < found.length; i += 2) {
+                pairs.push([found[i], found[i + 1]]);
+            }
+            pairs.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+            cells = Int32Array.from(pairs.flat());
+            layers.push({ position, coords: cells });
+        }
+        return layers;
+    }
+
+    /**
+     * Still life, oscillator or spaceship once the computed generations contain
+     * a repeat, otherwise null. Scans only generations added since the last call.
+     */
+    getClassification(): PatternClassification | null {
+        return this.periodicity.update(this.generations);
+    }
+
     exportState(): GameState {
         return {
-            gridSize: this.gridSize,
+            gridWidth: this.gridWidth,
+            gridHeight: this.gridHeight,
             generations: this.generations,
             currentGeneration: this.generations.length - 1,
-            toroidal: this.toroidal,
+            boundary: this.boundary,
+            infinite: this.infinite,
             ruleName: this.currentRuleName,
-            birthRule: Array.from(this.birthRule),
-            survivalRule: Array.from(this.survivalRule)
+            birthRule: this.getBirthRule(),
+            survivalRule: this.getSurvivalRule(),
+            stateCount: this.stateCount,
+            ruleString: this.getRuleString(),
+            ...(this.initialGeneration ? { initialGeneration: this.initialGeneration } : {}),
+            ...(this.seed !== null && this.soup ? { seed: this.seed, soup: { ...this.soup } } : {}),
+            ...(this.scene ? { scene: this.getScene()! } : {})
         };
     }
 
     importState(state: GameState): void {
-        this.gridSize = state.gridSize;
-        this.generations = state.generations;
-        this.toroidal = state.toroidal ?? false;
+        this.gridWidth = state.gridWidth ?? state.gridSize ?? 50;
+        this.gridHeight = state.gridHeight ?? state.gridSize ?? this.gridWidth;
+        let previous: Generation | undefined;
+        this.generations = state.generations.map(generation => {
+            previous = generation instanceof Generation
+                ? generation
+                : Generation.fromSerialized(generation, this.gridWidth, this.gridHeight, previous);
+            return previous;
+        });
+        if (!state.initialGeneration) {
+            this.initialGeneration = null;
+        } else if (state.initialGeneration instanceof Generation) {
+            this.initialGeneration = state.initialGeneration;
+        } else {
+            this.initialGeneration = Generation.fromSerialized(state.initialGeneration, this.gridWidth, this.gridHeight);
+        }
+        if (state.boundary && isBoundaryMode(state.boundary)) {
+            this.boundary = state.boundary;
+        } else {
+            this.boundary = state.toroidal ? 'torus' : 'plane';
+        }
+        this.infinite = state.infinite ?? false;
 
         // Restore rule configuration
         if (state.ruleName && state.ruleName !== 'custom' && RULE_PRESETS[state.ruleName]) {
             this.setRule(state.ruleName);
+        } else if (state.ruleString) {
+            this.setRuleString(state.ruleString);
         } else if (state.birthRule && state.survivalRule) {
-            this.setCustomRule(state.birthRule, state.survivalRule);
+            this.setCustomRule(state.birthRule, state.survivalRule, state.stateCount ?? 2);
+        }
+
+        this.seed = state.seed ?? null;
+        this.soup = state.soup ? { ...state.soup } : null;
+        this.scene = state.scene ? state.scene.map(placement => ({ ...placement })) : null;
+        if (this.generations.length === 0 && this.seed !== null) {
+            this.initializeSoup(this.seed, this.soup ?? DEFAULT_SOUP);
         }
     }
 
     clear(): void {
         this.generations = [];
+        this.initialGeneration = null;
+        this.seed = null;
+        this.soup = null;
+        this.scene = null;
     }
 }
\ No newline at end of file
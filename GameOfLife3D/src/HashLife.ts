@@ -0,0 +1,320 @@
+import { neighborBit } from './HenselNotation.js';
+
+/**
+ * HashLife: quadtree with hash-consed nodes and memoized successors.
+ *
+ * Supports two-state rules on the Moore neighborhood, including isotropic
+ * non-totalistic ones (any transition table without B0), on an unbounded
+ * plane. The universe is a single root node centered on the origin; advancing
+ * N generations decomposes N into powers of two and uses memoized
+ * "superspeed" steps for each of them.
+ */
+
+interface QuadNode {
+    id: number;
+    level: number;
+    population: number;
+    nw: QuadNode | null;
+    ne: QuadNode | null;
+    sw: QuadNode | null;
+    se: QuadNode | null;
+    // Successor results keyed by step exponent j (advance 2^j generations)
+    results: Map<number, QuadNode> | null;
+}
+
+export class HashLife {
+    private readonly birth: Uint8Array;
+    private readonly survival: Uint8Array;
+
+    private nodes: Map<string, QuadNode> = new Map();
+    private emptyNodes: QuadNode[] = [];
+    private nextId = 2;
+
+    private readonly deadLeaf: QuadNode = this.createLeaf(0, 0);
+    private readonly liveLeaf: QuadNode = this.createLeaf(1, 1);
+
+    private root: QuadNode;
+    private generation = 0;
+
+    /**
+     * @param birth Transition table indexed by neighborhood mask, as built by HenselNotation
+     * @param survival Transition table for live cells
+     */
+    constructor(birth: Uint8Array, survival: Uint8Array) {
+        if (birth[0]) {
+            throw new Error('HashLife cannot run rules with birth on 0 neighbors (B0)');
+        }
+        this.birth = birth;
+        this.survival = survival;
+
+        this.root = this.getEmpty(3);
+    }
+
+    /**
+     * Replaces the universe with the given live cells (interleaved x, y pairs).
+     */
+    setCells(coords: Int32Array): void {
+        let maxAbs = 1;
+        for (let i = 0; i < coords.length; i++) {
+            maxAbs = Math.max(maxAbs, Math.abs(coords[i]) + 1);
+        }
+
+        let level = 3;
+        while (Math.pow(2, level - 1) < maxAbs) {
+            level++;
+        }
+
+        this.root = this.getEmpty(level);
+        this.generation = 0;
+        for (let i = 0; i < coords.length; i += 2) {
+            this.root = this.setCell(this.root, coords[i], coords[i + 1]);
+        }
+    }
+
+    getGeneration(): number {
+        return this.generation;
+    }
+
+    getPopulation(): number {
+        return this.root.population;
+    }
+
+    /**
+     * Advances the universe by `generations` steps.
+     */
+    advance(generations: number): void {
+        let remaining = generations;
+        let exponent = 0;
+
+        while (remaining > 0) {
+            if (remaining % 2 === 1) {
+                this.step(exponent);
+            }
+            remaining = Math.floor(remaining / 2);
+            exponent++;
+        }
+    }
+
+    /**
+     * Live cells as interleaved x, y pairs, sorted by x then y.
+     */
+    getCoords(): Int32Array {
+        const cells: number[] = [];
+        const half = Math.pow(2, this.root.level - 1);
+        this.collectCells(this.root, -half, -half, cells);
+
+        const count = cells.length / 2;
+        const order = Array.from({ length: count }, (_, i) => i);
+        order.sort((a, b) => cells[a * 2] - cells[b * 2] || cells[a * 2 + 1] - cells[b * 2 + 1]);
+
+        const coords = new Int32Array(cells.length);
+        for (let i = 0; i < count; i++) {
+            coords[i * 2] = cells[order[i] * 2];
+            coords[i * 2 + 1] = cells[order[i] * 2 + 1];
+        }
+        return coords;
+    }
+
+    /**
+     * Advances 2^exponent generations. The root is padded first so the pattern
+     * sits in the central quarter with enough margin for its growth.
+     */
+    private step(exponent: number): void {
+        while (this.root.level < exponent + 2 || !this.isPadded(this.root)) {
+            this.root = this.expand(this.root);
+        }
+        this.root = this.expand(this.root);
+        this.root = this.successor(this.root, exponent);
+        this.generation += Math.pow(2, exponent);
+    }
+
+    private createLeaf(id: number, population: number): QuadNode {
+        return { id, level: 0, population, nw: null, ne: null, sw: null, se: null, results: null };
+    }
+
+    private join(nw: QuadNode, ne: QuadNode, sw: QuadNode, se: QuadNode): QuadNode {
+        const key = `${nw.id},${ne.id},${sw.id},${se.id}`;
+        let node = this.nodes.get(key);
+        if (!node) {
+            node = {
+                id: this.nextId++,
+                level: nw.level + 1,
+                population: nw.population + ne.population + sw.population + se.population,
+                nw, ne, sw, se,
+                results: null
+            };
+            this.nodes.set(key, node);
+        }
+        return node;
+    }
+
+    private getEmpty(level: number): QuadNode {
+        if (level === 0) return this.deadLeaf;
+        let node = this.emptyNodes[level];
+        if (!node) {
+            const child = this.getEmpty(level - 1);
+            node = this.join(child, child, child, child);
+            this.emptyNodes[level] = node;
+        }
+        return node;
+    }
+
+    /**
+     * Sets a cell, where (x, y) is relative to the node's center.
+     */
+    private setCell(node: QuadNode, x: number, y: number): QuadNode {
+        if (node.level === 0) {
+            return this.liveLeaf;
+        }
+
+        // Child centers sit a quarter of the node size away from this center
+        const offset = node.level === 1 ? 0 : Math.pow(2, node.level - 2);
+        const west = x < 0;
+        const north = y < 0;
+        const childX = node.level === 1 ? 0 : (west ? x + offset : x - offset);
+        const childY = node.level === 1 ? 0 : (north ? y + offset : y - offset);
+
+        if (north) {
+            return west
+                ? this.join(this.setCell(node.nw!, childX, childY), node.ne!, node.sw!, node.se!)
+                : this.join(node.nw!, this.setCell(node.ne!, childX, childY), node.sw!, node.se!);
+        }
+        return west
+            ? this.join(node.nw!, node.ne!, this.setCell(node.sw!, childX, childY), node.se!)
+            : this.join(node.nw!, node.ne!, node.sw!, this.setCell(node.se!, childX, childY));
+    }
+
+    /**
+     * Doubles the node size, keeping its contents centered.
+     */
+    private expand(node: QuadNode): QuadNode {
+        const border = this.getEmpty(node.level - 1);
+        return this.join(
+            this.join(border, border, border, node.nw!),
+            this.join(border, border, node.ne!, border),
+            this.join(border, node.sw!, border, border),
+            this.join(node.se!, border, border, border)
+        );
+    }
+
+    /**
+     * True when all live cells lie in the central quarter of the node.
+     */
+    private isPadded(node: QuadNode): boolean {
+        return node.population ===
+            node.nw!.se!.population + node.ne!.sw!.population +
+            node.sw!.ne!.population + node.se!.nw!.population;
+    }
+
+    private centeredSubnode(nw: QuadNode, ne: QuadNode, sw: QuadNode, se: QuadNode): QuadNode {
+        return this.join(nw.se!, ne.sw!, sw.ne!, se.nw!);
+    }
+
+    /**
+     * Returns the central half of `node` advanced 2^exponent generations,
+     * where exponent is clamped to level - 2.
+     */
+    private successor(node: QuadNode, exponent: number): QuadNode {
+        if (node.population === 0) {
+            return node.nw!;
+        }
+        if (node.level === 2) {
+            return this.baseSuccessor(node);
+        }
+
+        const j = Math.min(exponent, node.level - 2);
+        const cached = node.results?.get(j);
+        if (cached) return cached;
+
+        const nw = node.nw!;
+        const ne = node.ne!;
+        const sw = node.sw!;
+        const se = node.se!;
+
+        // Nine overlapping subnodes one level down, each advanced 2^j (or 2^(level-3) at full speed)
+        const c1 = this.successor(nw, j);
+        const c2 = this.successor(this.join(nw.ne!, ne.nw!, nw.se!, ne.sw!), j);
+        const c3 = this.successor(ne, j);
+        const c4 = this.successor(this.join(nw.sw!, nw.se!, sw.nw!, sw.ne!), j);
+        const c5 = this.successor(this.join(nw.se!, ne.sw!, sw.ne!, se.nw!), j);
+        const c6 = this.successor(this.join(ne.sw!, ne.se!, se.nw!, se.ne!), j);
+        const c7 = this.successor(sw, j);
+        const c8 = this.successor(this.join(sw.ne!, se.nw!, sw.se!, se.sw!), j);
+        const c9 = this.successor(se, j);
+
+        let result: QuadNode;
+        if (j < node.level - 2) {
+            // Partial speed: the first round already covered 2^j, just recombine centers
+            result = this.join(
+                this.centeredSubnode(c1, c2, c4, c5),
+                this.centeredSubnode(c2, c3, c5, c6),
+                this.centeredSubnode(c4, c5, c7, c8),
+                this.centeredSubnode(c5, c6, c8, c9)
+            );
+        } else {
+            // Full speed: two rounds of 2^(level-3) each
+            result = this.join(
+                this.successor(this.join(c1, c2, c4, c5), j),
+                this.successor(this.join(c2, c3, c5, c6), j),
+                this.successor(this.join(c4, c5, c7, c8), j),
+                this.successor(this.join(c5, c6, c8, c9), j)
+            );
+        }
+
+        if (!node.results) {
+            node.results = new Map();
+        }
+        node.results.set(j, result);
+        return result;
+    }
+
+    /**
+     * Level-2 (4x4) node: computes the central 2x2 one generation ahead.
+     */
+    private baseSuccessor(node: QuadNode): QuadNode {
+        const cached = node.results?.get(0);
+        if (cached) return cached;
+
+        // grid[y][x] for the 4x4 block
+        const grid: number[][] = [
+            [node.nw!.nw!.population, node.nw!.ne!.population, node.ne!.nw!.population, node.ne!.ne!.population],
+            [node.nw!.sw!.population, node.nw!.se!.population, node.ne!.sw!.population, node.ne!.se!.population],
+            [node.sw!.nw!.population, node.sw!.ne!.population, node.se!.nw!.population, node.se!.ne!.population],
+            [node.sw!.sw!.population, node.sw!.se!.population, node.se!.sw!.population, node.se!.se!.population]
+        ];
+
+        const next = (x: number, y: number): QuadNode => {
+            let mask = 0;
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    if (dx === 0 && dy === 0) continue;
+                    if (grid[y + dy][x + dx]) mask |= 1 << neighborBit(dx, dy);
+                }
+            }
+            const alive = grid[y][x] === 1 ? this.survival[mask] : this.birth[mask];
+            return alive ? this.liveLeaf : this.deadLeaf;
+        };
+
+        const result = this.join(next(1, 1), next(2, 1), next(1, 2), next(2, 2));
+        if (!node.results) {
+            node.results = new Map();
+        }
+        node.results.set(0, result);
+        return result;
+    }
+
+    private collectCells(node: QuadNode, x: number, y: number, cells: number[]): void {
+        if (node.population === 0) return;
+
+        if (node.level === 0) {
+            cells.push(x, y);
+            return;
+        }
+
+        const half = Math.pow(2, node.level - 1);
+        this.collectCells(node.nw!, x, y, cells);
+        this.collectCells(node.ne!, x + half, y, cells);
+        this.collectCells(node.sw!, x, y + half, cells);
+        this.collectCells(node.se!, x + half, y + half, cells);
+    }
+}
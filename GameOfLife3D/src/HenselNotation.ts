@@ -0,0 +1,200 @@
+/**
+ * Isotropic non-totalistic (INT) rule support using Hensel notation.
+ *
+ * A rule condition such as the "2-a3" in B2-a3/S23 is compiled into a
+ * 256-entry transition table indexed by the 8-bit neighborhood mask, so
+ * totalistic and non-totalistic rules run through the same engine path.
+ *
+ * Mask bit order (dx, dy): NW, N, NE, W, E, SW, S, SE.
+ */
+
+export const NEIGHBOR_OFFSETS: ReadonlyArray<readonly [number, number]> = [
+    [-1, -1], [0, -1], [1, -1],
+    [-1, 0], [1, 0],
+    [-1, 1], [0, 1], [1, 1]
+];
+
+/** Range-1 neighborhoods that can be expressed as a subset of the Moore mask */
+export type Neighborhood = 'moore' | 'vonneumann' | 'hexagonal';
+
+// Hexagonal emulates a hex grid on the square one by ignoring two opposite corners
+export const NEIGHBORHOOD_MASKS: Record<Neighborhood, number> = {
+    moore: 0xff,
+    vonneumann: 0x5a,
+    hexagonal: 0xdb
+};
+
+/**
+ * Mask bit for the neighbor at offset (dx, dy), or -1 for the center.
+ */
+export function neighborBit(dx: number, dy: number): number {
+    const index = (dy + 1) * 3 + (dx + 1);
+    if (index === 4) return -1;
+    return index < 4 ? index : index - 1;
+}
+
+// Hensel letters per neighbor count, in canonical order
+const LETTERS: string[] = [
+    '', 'ce', 'ceaikn', 'ceaiknjqry', 'ceaiknjqrytwz', 'ceaiknjqry', 'ceaikn', 'ce', ''
+];
+
+// One representative neighborhood per letter for counts 1-4, as 3x3 masks
+// with bit (row * 3 + column) and the center at bit 4. Counts 5-7 use the
+// complements of counts 3-1.
+const REPRESENTATIVES: number[][] = [
+    [],
+    [1, 2],
+    [5, 10, 3, 40, 33, 68],
+    [69, 42, 11, 7, 98, 13, 14, 70, 41, 97],
+    [325, 170, 15, 45, 99, 71, 106, 102, 43, 101, 105, 78, 108]
+];
+
+// letterMasks[count][letterIndex] = every 8-bit mask in that class
+const letterMasks: number[][][] = buildLetterMasks();
+
+function popcount(mask: number): number {
+    let count = 0;
+    for (let m = mask; m; m &= m - 1) count++;
+    return count;
+}
+
+function gridToMask(grid: number): number {
+    let mask = 0;
+    for (let bit = 0; bit < 9; bit++) {
+        if (bit !== 4 && (grid >> bit) & 1) {
+            mask |= 1 << neighborBit(bit % 3 - 1, Math.floor(bit / 3) - 1);
+        }
+    }
+    return mask;
+}
+
+/**
+ * All rotations and reflections of a mask.
+ */
+function symmetries(mask: number): number[] {
+    const transforms: Array<(x: number, y: number) => [number, number]> = [
+        (x, y) => [x, y], (x, y) => [-y, x], (x, y) => [-x, -y], (x, y) => [y, -x],
+        (x, y) => [-x, y], (x, y) => [x, -y], (x, y) => [y, x], (x, y) => [-y, -x]
+    ];
+    return transforms.map(transform => {
+        let result = 0;
+        NEIGHBOR_OFFSETS.forEach(([dx, dy], bit) => {
+            if ((mask >> bit) & 1) {
+                const [tx, ty] = transform(dx, dy);
+                result |= 1 << neighborBit(tx, ty);
+            }
+        });
+        return result;
+    });
+}
+
+function buildLetterMasks(): number[][][] {
+    const result: number[][][] = [];
+    for (let count = 0; count <= 8; count++) {
+        if (count === 0 || count === 8) {
+            result.push([[count === 0 ? 0 : 255]]);
+            continue;
+        }
+        const representatives = count <= 4
+            ? REPRESENTATIVES[count].map(gridToMask)
+            : REPRESENTATIVES[8 - count].map(grid => gridToMask(grid) ^ 255);
+        result.push(representatives.map(mask => Array.from(new Set(symmetries(mask)))));
+    }
+    return result;
+}
+
+/**
+ * Transition table where every neighborhood with one of the given counts is enabled.
+ * Neighbors outside `neighborhood` (a mask from NEIGHBORHOOD_MASKS) are not counted.
+ */
+export function createTotalisticTable(counts: Iterable<number>, neighborhood: number = 0xff): Uint8Array {
+    const enabled = new Set(counts);
+    const table = new Uint8Array(256);
+    for (let mask = 0; mask < 256; mask++) {
+        table[mask] = enabled.has(popcount(mask & neighborhood)) ? 1 : 0;
+    }
+    return table;
+}
+
+/**
+ * Parses one side of a rulestring, e.g. "2-a3" or "12ce4". Throws on invalid input.
+ */
+export function parseCondition(spec: string): Uint8Array {
+    const table = new Uint8Array(256);
+    const seen = new Set<number>();
+    const pattern = /([0-8])(-?)([a-z]*)/gy;
+    let match: RegExpExecArray | null;
+    let consumed = 0;
+
+    while (consumed < spec.length && (match = pattern.exec(spec)) !== null) {
+        consumed = pattern.lastIndex;
+        const count = Number(match[1]);
+        const negate = match[2] === '-';
+        const letters = match[3];
+
+        if (seen.has(count)) {
+            throw new Error(`Neighbor count ${count} appears twice in "${spec}"`);
+        }
+        seen.add(count);
+
+        const available = LETTERS[count];
+        for (const letter of letters) {
+            if (!available.includes(letter)) {
+                throw new Error(`"${count}${letter}" is not a valid neighborhood in "${spec}"`);
+            }
+        }
+        if (negate && letters.length === 0) {
+            throw new Error(`Expected letters after "${count}-" in "${spec}"`);
+        }
+
+        for (let i = 0; i < letterMasks[count].length; i++) {
+            const letter = available[i] ?? '';
+            const listed = letters.includes(letter);
+            if (letters.length === 0 || listed !== negate) {
+                letterMasks[count][i].forEach(mask => { table[mask] = 1; });
+            }
+        }
+    }
+
+    if (consumed !== spec.length) {
+        throw new Error(`Invalid rule condition "${spec}"`);
+    }
+    return table;
+}
+
+/**
+ * Formats a transition table in canonical Hensel notation.
+ * Isotropy is assumed: each letter class is read from its first mask.
+ */
+export function formatCondition(table: Uint8Array): string {
+    let result = '';
+    for (let count = 0; count <= 8; count++) {
+        const classes = letterMasks[count];
+        const enabled = classes.map(masks => table[masks[0]] === 1);
+        const enabledCount = enabled.filter(Boolean).length;
+
+        if (enabledCount === 0) continue;
+        if (enabledCount === classes.length) {
+            result += count;
+            continue;
+        }
+
+        const letters = LETTERS[count];
+        const present = letters.split('').filter((_, i) => enabled[i]).join('');
+        const missing = letters.split('').filter((_, i) => !enabled[i]).join('');
+        result += present.length <= missing.length ? `${count}${present}` : `${count}-${missing}`;
+    }
+    return result;
+}
+
+/**
+ * Neighbor counts with at least one enabled neighborhood, counting only
+ * neighbors inside `neighborhood`.
+ */
+export function getEnabledCounts(table: Uint8Array, neighborhood: number = 0xff): number[] {
+    const counts = new Set<number>();
+    for (let mask = 0; mask < 256; mask++) {
+        if ((mask & ~neighborhood) === 0 && table[mask]) counts.add(popcount(mask));
+    }
+    return Array.from(counts).sort((a, b) => a - b);
+}
@@ -1,3 +1,124 @@
+/**
+ * Error in a pattern file, with the 1-based line and column it was found at.
+ */
+export class PatternParseError extends Error {
+    readonly line: number;
+    readonly column: number;
+
+    constructor(message: string, line: number, column: number) {
+        super(`Line ${line}, column ${column}: ${message}`);
+        this.name = 'PatternParseError';
+        this.line = line;
+        this.column = column;
+    }
+}
+
+/** Pattern file formats that can be read and written */
+export type PatternFormat = 'rle' | 'cells' | 'life106' | 'life105' | 'macrocell';
+
+export const PATTERN_FORMATS: ReadonlyArray<PatternFormat> = ['rle', 'cells', 'life106', 'life105', 'macrocell'];
+
+/** Extension for saved files of each format; both Life formats use .lif */
+export const PATTERN_FORMAT_EXTENSIONS: Record<PatternFormat, string> = {
+    rle: 'rle',
+    cells: 'cells',
+    life106: 'lif',
+    life105: 'lif',
+    macrocell: 'mc'
+};
+
+export function isPatternFormat(value: string): value is PatternFormat {
+    return (PATTERN_FORMATS as ReadonlyArray<string>).includes(value);
+}
+
+/** Everything read from a pattern file */
+export interface PatternFile {
+    /** Cells per row (the RLE x) */
+    width: number;
+    /** Rows (the RLE y) */
+    height: number;
+    /** Cell states by row then column: 0 dead, 1 alive, 2-255 the other states of multi-state rules */
+    states: Uint8Array[];
+    /** Cells in state 1, by row then column */
+    cells: boolean[][];
+    /** Rule as written in the file: the RLE header or `#r` line, or the Life 1.05 `#N`/`#R` line */
+    rule: string | null;
+    name: string | null;
+    author: string | null;
+    comments: string[];
+    /**
+     * Position of the top-left cell in the author's coordinates: from `#R`,
+     * `#P` or `#CXRLE Pos=` in RLE, or the lowest coordinates of a Life file
+     */
+    origin: { x: number; y: number } | null;
+}
+
+/** A pattern read as its live cells, for files that may be too large to hold row by row */
+export interface SparsePattern {
+    /** Live cells as interleaved x (column), y (row) pairs from the top-left of the bounding box */
+    cells: Int32Array;
+    /** Size of the bounding box */
+    width: number;
+    height: number;
+    rule: string | null;
+    comments: string[];
+    /** Position of the bounding box's top-left cell in the file's coordinates */
+    origin: { x: number; y: number };
+    /** Generation number from a macrocell `#G` line */
+    generation: number | null;
+}
+
+/** Rule and metadata written into a pattern file, where the format has room for them */
+export interface PatternWriteOptions {
+    /** Rulestring; B3/S23 when omitted */
+    rule?: string;
+    name?: string;
+    author?: string;
+    comments?: string[];
+    /** Position of the top-left cell: `#CXRLE Pos=` in RLE, and the coordinates of Life files */
+    origin?: { x: number; y: number };
+    /** Generation number, written as `#CXRLE Gen=` in RLE and `#G` in macrocell */
+    generation?: number;
+}
+
+// Golly and LifeViewer keep RLE lines within 70 characters
+const RLE_LINE_LENGTH = 70;
+
+// Life 1.05 lines hold at most 80 characters, so wider patterns are split into blocks
+const LIFE105_LINE_LENGTH = 80;
+
+/**
+ * Rewrites a rule from an RLE file in the notation GameEngine.setRuleString
+ * reads: the S/B forms "23/3" and "345/2/4" (survival/birth/states) become
+ * "B3/S23" and "B2/S345/C4", and Golly's ":T100,100" topology suffix is dropped.
+ */
+export function toEngineRuleString(rule: string): string {
+    const withoutTopology = rule.split(':')[0].trim();
+    const survivalBirth = withoutTopology.match(/^(\d*)\/(\d*)(?:\/(\d+))?$/);
+    if (!survivalBirth) {
+        return withoutTopology;
+    }
+    const [, survival, birth, states] = survivalBirth;
+    return states ? `B${birth}/S${survival}/C${states}` : `B${birth}/S${survival}`;
+}
+
+// Dense patterns beyond this many cells are refused rather than allocated
+export const MAX_PATTERN_CELLS = 1 << 22;
+
+// Sparse patterns beyond this many live cells are refused, as are macrocell
+// trees so deep their coordinates would lose precision
+export const MAX_SPARSE_CELLS = 1 << 21;
+const MAX_MACROCELL_LEVEL = 48;
+
+/** A macrocell node: an 8 x 8 leaf or level 1 node holds cells, larger nodes four children */
+interface MacrocellNode {
+    level: number;
+    /** Node numbers of the nw, ne, sw and se quarters; 0 is empty */
+    children: number[];
+    /** Live cells as interleaved x, y pairs from the node's top-left corner */
+    cells: number[];
+}
+
 export interface PatternInfo {
     name: string;
     description: string;
@@ -79,135 +200,858 @@ export class PatternLoader {
         });
     }
 
+    /**
+     * Reads an RLE pattern, keeping only the live (state 1) cells.
+     * Throws a PatternParseError on malformed input.
+     */
     parseRLE(rleContent: string): boolean[][] {
-        const lines = rleContent.split('\n').map(line => line.trim());
-
-        let width = 0;
-        let height = 0;
-        let rule = '';
-        let name = '';
-
-        for (const line of lines) {
-            if (line.startsWith('#N ')) {
-                name = line.substring(3);
-            } else if (line.startsWith('#C ') || line.startsWith('#c ')) {
-            } else if (line.startsWith('x ')) {
-                const match = line.match(/x\s*=\s*(\d+),\s*y\s*=\s*(\d+)(?:,\s*rule\s*=\s*([^,\s]+))?/i);
-                if (match) {
-                    width = parseInt(match[1]);
-                    height = parseInt(match[2]);
-                    rule = match[3] || 'B3/S23';
+        return this.readRLE(rleContent).cells;
+    }
+
+    /**
+     * Reads an RLE file: the `#` lines before the pattern (name, author,
+     * comments, origin), the `x = ..., y = ..., rule = ...` header, and the
+     * run-length encoded cells up to `!`. Cells may use the two-state letters
+     * b and o or the multi-state letters `.`, A-X and pA-yO.
+     * Throws a PatternParseError with the line and column of the problem.
+     */
+    readRLE(rleContent: string): PatternFile {
+        const lines = rleContent.split(/\r?\n/);
+        const result = this.emptyPatternFile();
+
+        // Comment lines, then the header
+        let lineIndex = 0;
+        for (; lineIndex < lines.length; lineIndex++) {
+            const line = lines[lineIndex].trim();
+            if (line === '') continue;
+            if (!line.startsWith('#')) break;
+            this.readRLEComment(line, lineIndex + 1, result);
+        }
+        if (lineIndex >= lines.length) {
+            throw new PatternParseError('Missing "x = ..., y = ..." header', lines.length, 1);
+        }
+
+        const headerLine = lineIndex + 1;
+        const header = lines[lineIndex].trim().match(/^x\s*=\s*(\d+)\s*,\s*y\s*=\s*(\d+)\s*(?:,\s*rule\s*=\s*(.*))?$/i);
+        if (!header) {
+            throw new PatternParseError('Expected a header like "x = 3, y = 3, rule = B3/S23"', headerLine, 1);
+        }
+        const width = parseInt(header[1], 10);
+        const height = parseInt(header[2], 10);
+        if (width === 0 || height === 0) {
+            throw new PatternParseError('Pattern is empty (x or y is 0)', headerLine, 1);
+        }
+        if (width * height > MAX_PATTERN_CELLS) {
+            throw new PatternParseError(`Pattern is too large (${width} x ${height} cells)`, headerLine, 1);
+        }
+        if (header[3]?.trim()) {
+            result.rule = header[3].trim();
+        }
+        result.width = width;
+        result.height = height;
+        result.states = Array.from({ length: height }, () => new Uint8Array(width));
+
+        // Run-length encoded cells
+        let row = 0;
+        let column = 0;
+        let count = '';
+        let countColumn = 0;
+        for (lineIndex++; lineIndex < lines.length; lineIndex++) {
+            const line = lines[lineIndex];
+            const lineNumber = lineIndex + 1;
+            if (line.trim().startsWith('#')) {
+                this.readRLEComment(line.trim(), lineNumber, result);
+                continue;
+            }
+
+            for (let i = 0; i < line.length; i++) {
+                const char = line[i];
+                if (char === ' ' || char === '\t' || char === '\r') continue;
+
+                if (char >= '0' && char <= '9') {
+                    if (count === '') countColumn = i + 1;
+                    count += char;
+                    continue;
+                }
+                const runLength = count === '' ? 1 : parseInt(count, 10);
+                const runColumn = count === '' ? i + 1 : countColumn;
+                count = '';
+                if (runLength === 0) {
+                    throw new PatternParseError('Run length must be at least 1', lineNumber, runColumn);
+                }
+
+                if (char === '!') {
+                    return this.finishPattern(result);
+                }
+                if (char === '$') {
+                    row += runLength;
+                    column = 0;
+                    continue;
+                }
+
+                let state: number;
+                if (char === 'b' || char === '.') {
+                    state = 0;
+                } else if (char === 'o') {
+                    state = 1;
+                } else if (char >= 'A' && char <= 'X') {
+                    state = char.charCodeAt(0) - 64;
+                } else if (char >= 'p' && char <= 'y' && line[i + 1] >= 'A' && line[i + 1] <= 'X') {
+                    // Two-letter states: pA is 25, pB 26, ..., qA 49, ...
+                    state = (char.charCodeAt(0) - 111) * 24 + line.charCodeAt(i + 1) - 64;
+                    i++;
+                    if (state > 255) {
+                        throw new PatternParseError(`State ${state} is above the 255 supported`, lineNumber, i);
+                    }
+                } else {
+                    throw new PatternParseError(`Unexpected character "${char}"`, lineNumber, i + 1);
                 }
-                break;
+
+                if (column + runLength > width) {
+                    throw new PatternParseError(`Row ${row + 1} is wider than x = ${width}`, lineNumber, runColumn);
+                }
+                if (state !== 0) {
+                    if (row >= height) {
+                        throw new PatternParseError(`More rows than y = ${height}`, lineNumber, runColumn);
+                    }
+                    result.states[row].fill(state, column, column + runLength);
+                }
+                column += runLength;
             }
         }
 
-        if (width === 0 || height === 0) {
-            throw new Error('Invalid RLE format: missing dimensions');
+        throw new PatternParseError('Missing "!" at the end of the pattern', lines.length, lines[lines.length - 1].length + 1);
+    }
+
+    /**
+     * Reads one `#` line of an RLE file into the result. Unknown kinds are skipped.
+     */
+    private readRLEComment(line: string, lineNumber: number, result: PatternFile): void {
+        const kind = line.charAt(1);
+        const text = line.substring(2).trim();
+
+        if (line.startsWith('#CXRLE')) {
+            // Golly's extended RLE: "#CXRLE Pos=-10,-5 Gen=300"
+            const position = line.match(/Pos\s*=\s*(-?\d+)\s*,\s*(-?\d+)/i);
+            if (position) {
+                result.origin = { x: parseInt(position[1], 10), y: parseInt(position[2], 10) };
+            }
+        } else if (kind === 'C' || kind === 'c') {
+            result.comments.push(text);
+        } else if (kind === 'N') {
+            result.name = text;
+        } else if (kind === 'O') {
+            result.author = text;
+        } else if (kind === 'R' || kind === 'P') {
+            const offset = text.match(/^(-?\d+)\s+(-?\d+)$/);
+            if (!offset) {
+                throw new PatternParseError(`Expected "#${kind} x y"`, lineNumber, 3);
+            }
+            result.origin = { x: parseInt(offset[1], 10), y: parseInt(offset[2], 10) };
+        } else if (kind === 'r' && text && !result.rule) {
+            result.rule = text;
         }
+    }
 
-        const rleDataLines = lines.filter(line =>
-            !line.startsWith('#') &&
-            !line.startsWith('x ') &&
-            line.length > 0
-        );
+    /**
+     * Reads a pattern file in the format given by its first line, such as
+     * "#Life 1.06", or else its extension, or else what its lines look like.
+     */
+    readPattern(content: string, filename: string = ''): PatternFile {
+        switch (this.detectFormat(content, filename)) {
+            case 'cells':
+                return this.readCells(content);
+            case 'life106':
+                return this.readLife106(content);
+            case 'life105':
+                return this.readLife105(content);
+            case 'macrocell':
+                return this.sparseToPatternFile(this.readMacrocell(content));
+            default:
+                return this.readRLE(content);
+        }
+    }
 
-        const rleData = rleDataLines.join('');
+    detectFormat(content: string, filename: string = ''): PatternFormat {
+        const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+        const first = lines[0] ?? '';
+        if (/^#Life 1\.06/i.test(first)) return 'life106';
+        if (/^#Life 1\.05/i.test(first)) return 'life105';
+        if (first.startsWith('[M2]')) return 'macrocell';
 
-        const pattern: boolean[][] = Array(height).fill(null).map(() => Array(width).fill(false));
+        const extension = filename.toLowerCase().split('.').pop();
+        if (extension === 'rle') return 'rle';
+        if (extension === 'cells') return 'cells';
+        if (extension === 'mc') return 'macrocell';
 
-        let x = 0;
-        let y = 0;
-        let count = '';
+        // Plaintext is '!' comments and rows of cells; RLE has an "x = " header
+        const firstData = lines.find(line => !line.startsWith('#')) ?? '';
+        if (/^x\s*=/i.test(firstData)) return 'rle';
+        if (first.startsWith('!') || lines.every(line => /^[.O*]+$/.test(line))) return 'cells';
+        return 'rle';
+    }
 
-        for (let i = 0; i < rleData.length; i++) {
-            const char = rleData[i];
+    /**
+     * Reads a plaintext (.cells) file: `!` comment lines, then one line per
+     * row with `.` for dead cells and `O` (or `*`) for live ones. Rows may be
+     * cut short, and `!Name:` and `!Author:` comments give the name and author.
+     */
+    readCells(content: string): PatternFile {
+        const lines = content.split(/\r?\n/);
+        const result = this.emptyPatternFile();
+        const rows: string[] = [];
+        let lastRowLine = 0;
 
-            if (char >= '0' && char <= '9') {
-                count += char;
-            } else {
-                const repeatCount = count === '' ? 1 : parseInt(count);
-                count = '';
+        lines.forEach((line, index) => {
+            if (line.startsWith('!')) {
+                if (rows.length > 0) return;
+                const text = line.substring(1).trim();
+                const field = text.match(/^(Name|Author):\s*(.*)$/i);
+                if (field && field[1].toLowerCase() === 'name') {
+                    result.name = field[2];
+                } else if (field) {
+                    result.author = field[2];
+                } else {
+                    result.comments.push(text);
+                }
+                return;
+            }
+
+            const row = line.trimEnd();
+            const bad = row.search(/[^.O*]/);
+            if (bad !== -1) {
+                throw new PatternParseError(`Unexpected character "${row[bad]}"`, index + 1, bad + 1);
+            }
+            if (row !== '' || rows.length > 0) {
+                rows.push(row);
+                if (row !== '') lastRowLine = rows.length;
+            }
+        });
+        rows.length = lastRowLine;
+        if (rows.length === 0) {
+            throw new PatternParseError('Pattern has no rows', lines.length, 1);
+        }
+
+        result.width = Math.max(1, ...rows.map(row => row.length));
+        result.height = rows.length;
+        if (result.width * result.height > MAX_PATTERN_CELLS) {
+            throw new PatternParseError(`Pattern is too large (${result.width} x ${result.height} cells)`, 1, 1);
+        }
+        result.states = rows.map(row => {
+            const states = new Uint8Array(result.width);
+            for (let i = 0; i < row.length; i++) {
+                states[i] = row[i] === '.' ? 0 : 1;
+            }
+            return states;
+        });
+        return this.finishPattern(result);
+    }
+
+    /**
+     * Reads a Life 1.06 file: a "#Life 1.06" line, then one "x y" line per
+     * live cell.
+     */
+    readLife106(content: string): PatternFile {
+        const lines = content.split(/\r?\n/);
+        const result = this.emptyPatternFile();
+        const live: number[] = [];
+        let sawHeader = false;
+
+        lines.forEach((rawLine, index) => {
+            const line = rawLine.trim();
+            if (line === '') return;
+            if (!sawHeader) {
+                if (!/^#Life 1\.06/i.test(line)) {
+                    throw new PatternParseError('Expected "#Life 1.06"', index + 1, 1);
+                }
+                sawHeader = true;
+                return;
+            }
+            if (line.startsWith('#')) {
+                result.comments.push(line.substring(2).trim());
+                return;
+            }
+            const cell = line.match(/^(-?\d+)\s+(-?\d+)$/);
+            if (!cell) {
+                throw new PatternParseError('Expected a cell as "x y"', index + 1, 1);
+            }
+            live.push(parseInt(cell[1], 10), parseInt(cell[2], 10));
+        });
+
+        return this.placeLiveCells(result, live, lines.length);
+    }
+
+    /**
+     * Reads a Life 1.05 file: a "#Life 1.05" line, `#D` description lines,
+     * `#N` (Conway's Life) or `#R survival/birth` for the rule, then blocks of
+     * `.` and `*` rows, each starting with "#P x y" at its top-left cell.
+     */
+    readLife105(content: string): PatternFile {
+        const lines = content.split(/\r?\n/);
+        const result = this.emptyPatternFile();
+        const live: number[] = [];
+        let sawHeader = false;
+        let blockX = 0;
+        let blockY = 0;
+        let row = 0;
+
+        lines.forEach((rawLine, index) => {
+            const line = rawLine.trim();
+            const lineNumber = index + 1;
+            if (line === '') return;
+            if (!sawHeader) {
+                if (!/^#Life 1\.05/i.test(line)) {
+                    throw new PatternParseError('Expected "#Life 1.05"', lineNumber, 1);
+                }
+                sawHeader = true;
+                return;
+            }
+
+            if (line.startsWith('#')) {
+                const kind = line.charAt(1);
+                const text = line.substring(2).trim();
+                if (kind === 'D' || kind === 'C') {
+                    result.comments.push(text);
+                } else if (kind === 'N') {
+                    result.rule = 'B3/S23';
+                } else if (kind === 'R') {
+                    result.rule = text;
+                } else if (kind === 'P') {
+                    const offset = text.match(/^(-?\d+)\s+(-?\d+)$/);
+                    if (!offset) {
+                        throw new PatternParseError('Expected "#P x y"', lineNumber, 3);
+                    }
+                    blockX = parseInt(offset[1], 10);
+                    blockY = parseInt(offset[2], 10);
+                    row = 0;
+                }
+                return;
+            }
+
+            for (let i = 0; i < line.length; i++) {
+                if (line[i] === '*' || line[i] === 'O') {
+                    live.push(blockX + i, blockY + row);
+                } else if (line[i] !== '.') {
+                    throw new PatternParseError(`Unexpected character "${line[i]}"`, lineNumber, rawLine.indexOf(line) + i + 1);
+                }
+            }
+            row++;
+        });
+
+        return this.placeLiveCells(result, live, lines.length);
+    }
+
+    /**
+     * Reads a macrocell (.mc) file, Golly's quadtree format: an "[M2]" line,
+     * `#R` rule, `#G` generation and `#C` comment lines, then one node per
+     * line. A node is an 8 x 8 leaf of `.` and `*` rows ended by `$`, or
+     * "level nw ne sw se" naming earlier nodes by line number (0 is empty);
+     * multi-state files use level 1 nodes of four cell states instead of
+     * leaves. The last node is the root, centered on (0, 0). Only the live
+     * cells are expanded, so repeated or empty blocks cost nothing.
+     */
+    readMacrocell(content: string): SparsePattern {
+        const lines = content.split(/\r?\n/);
+        const result: SparsePattern = {
+            cells: new Int32Array(0),
+            width: 0,
+            height: 0,
+            rule: null,
+            comments: [],
+            origin: { x: 0, y: 0 },
+            generation: null
+        };
+        // Node 0 is the empty node of every level
+        const nodes: MacrocellNode[] = [{ level: 0, children: [], cells: [] }];
+        const population: number[] = [0];
+        let sawHeader = false;
+
+        lines.forEach((rawLine, index) => {
+            const line = rawLine.trim();
+            const lineNumber = index + 1;
+            if (line === '') return;
+            if (!sawHeader) {
+                if (!line.startsWith('[M2]')) {
+                    throw new PatternParseError('Expected "[M2]"', lineNumber, 1);
+                }
+                sawHeader = true;
+                return;
+            }
 
-                switch (char) {
-                    case 'b':
-                        x += repeatCount;
-                        break;
-                    case 'o':
-                        for (let j = 0; j < repeatCount; j++) {
-                            if (x < width && y < height) {
-                                pattern[y][x] = true;
-                            }
-                            x++;
+            if (line.startsWith('#')) {
+                const kind = line.charAt(1);
+                const text = line.substring(2).trim();
+                if (kind === 'R') {
+                    result.rule = text;
+                } else if (kind === 'G') {
+                    const generation = Number(text);
+                    result.generation = Number.isSafeInteger(generation) ? generation : null;
+                } else if (kind === 'C' || kind === 'D') {
+                    result.comments.push(text);
+                }
+                return;
+            }
+
+            const node: MacrocellNode = { level: 3, children: [], cells: [] };
+            if (/^\d/.test(line)) {
+                const fields = line.match(/^(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)$/);
+                if (!fields) {
+                    throw new PatternParseError('Expected a node as "level nw ne sw se"', lineNumber, 1);
+                }
+                node.level = parseInt(fields[1], 10);
+                const parts = fields.slice(2).map(field => parseInt(field, 10));
+                if (node.level < 1 || node.level > MAX_MACROCELL_LEVEL) {
+                    throw new PatternParseError(`Node level ${node.level} is out of range`, lineNumber, 1);
+                }
+                if (node.level === 1) {
+                    parts.forEach((state, quadrant) => {
+                        if (state === 1) {
+                            node.cells.push(quadrant & 1, quadrant >> 1);
                         }
-                        break;
-                    case '$':
-                        y += repeatCount;
+                    });
+                } else {
+                    for (const child of parts) {
+                        if (child >= nodes.length) {
+                            throw new PatternParseError(`Node ${child} is not defined yet`, lineNumber, 1);
+                        }
+                        if (child !== 0 && nodes[child].level !== node.level - 1) {
+                            throw new PatternParseError(`Node ${child} is not of level ${node.level - 1}`, lineNumber, 1);
+                        }
+                    }
+                    node.children = parts;
+                }
+            } else {
+                let x = 0;
+                let y = 0;
+                for (let i = 0; i < line.length; i++) {
+                    const char = line[i];
+                    const column = rawLine.indexOf(line) + i + 1;
+                    if (char === '$') {
                         x = 0;
-                        break;
-                    case '!':
-                        return pattern;
-                    default:
-                        break;
+                        y++;
+                        continue;
+                    }
+                    if (char !== '.' && char !== '*') {
+                        throw new PatternParseError(`Unexpected character "${char}"`, lineNumber, column);
+                    }
+                    if (x >= 8 || y >= 8) {
+                        throw new PatternParseError('Leaf cell outside its 8 x 8 block', lineNumber, column);
+                    }
+                    if (char === '*') {
+                        node.cells.push(x, y);
+                    }
+                    x++;
                 }
+            }
 
-                if (x >= width) {
-                    x = 0;
-                    y++;
-                }
+            const count = node.cells.length / 2 + node.children.reduce((sum, child) => sum + population[child], 0);
+            nodes.push(node);
+            population.push(count);
+        });
+
+        const root = nodes.length - 1;
+        if (root === 0) {
+            throw new PatternParseError('Pattern has no nodes', lines.length, 1);
+        }
+        if (population[root] === 0) {
+            throw new PatternParseError('Pattern has no live cells', lines.length, 1);
+        }
+        if (population[root] > MAX_SPARSE_CELLS) {
+            throw new PatternParseError(`Pattern has more than the ${MAX_SPARSE_CELLS} live cells that can be loaded`, lines.length, 1);
+        }
+
+        const live: number[] = [];
+        const expand = (index: number, x: number, y: number) => {
+            if (population[index] === 0) return;
+            const node = nodes[index];
+            for (let i = 0; i < node.cells.length; i += 2) {
+                live.push(x + node.cells[i], y + node.cells[i + 1]);
             }
+            const half = 2 ** (node.level - 1);
+            node.children.forEach((child, quadrant) => {
+                expand(child, x + (quadrant & 1) * half, y + (quadrant >> 1) * half);
+            });
+        };
+        const corner = -(2 ** (nodes[root].level - 1));
+        expand(root, corner, corner);
+
+        let minX = Infinity;
+        let maxX = -Infinity;
+        let minY = Infinity;
+        let maxY = -Infinity;
+        for (let i = 0; i < live.length; i += 2) {
+            minX = Math.min(minX, live[i]);
+            maxX = Math.max(maxX, live[i]);
+            minY = Math.min(minY, live[i + 1]);
+            maxY = Math.max(maxY, live[i + 1]);
+        }
+        result.width = maxX - minX + 1;
+        result.height = maxY - minY + 1;
+        if (result.width > 2 ** 30 || result.height > 2 ** 30) {
+            throw new PatternParseError(`Pattern spreads over too large an area (${result.width} x ${result.height} cells)`, lines.length, 1);
         }
+        result.cells = Int32Array.from(live, (value, i) => value - (i % 2 === 0 ? minX : minY));
+        result.origin = { x: minX, y: minY };
+        return result;
+    }
 
-        return pattern;
+    private emptyPatternFile(): PatternFile {
+        return {
+            width: 0,
+            height: 0,
+            states: [],
+            cells: [],
+            rule: null,
+            name: null,
+            author: null,
+            comments: [],
+            origin: null
+        };
     }
 
-    patternToRLE(pattern: boolean[][], name?: string): string {
-        const height = pattern.length;
-        const width = pattern[0]?.length || 0;
+    /**
+     * Sizes a pattern to the bounding box of its live cells, given as
+     * interleaved x (column), y (row) pairs, and records the box's corner as
+     * the origin.
+     */
+    private placeLiveCells(result: PatternFile, live: number[], lineCount: number): PatternFile {
+        if (live.length === 0) {
+            throw new PatternParseError('Pattern has no live cells', lineCount, 1);
+        }
+
+        let minX = Infinity;
+        let maxX = -Infinity;
+        let minY = Infinity;
+        let maxY = -Infinity;
+        for (let i = 0; i < live.length; i += 2) {
+            minX = Math.min(minX, live[i]);
+            maxX = Math.max(maxX, live[i]);
+            minY = Math.min(minY, live[i + 1]);
+            maxY = Math.max(maxY, live[i + 1]);
+        }
+        result.width = maxX - minX + 1;
+        result.height = maxY - minY + 1;
+        if (result.width * result.height > MAX_PATTERN_CELLS) {
+            throw new PatternParseError(`Pattern is too large (${result.width} x ${result.height} cells)`, lineCount, 1);
+        }
+
+        result.states = Array.from({ length: result.height }, () => new Uint8Array(result.width));
+        for (let i = 0; i < live.length; i += 2) {
+            result.states[live[i + 1] - minY][live[i] - minX] = 1;
+        }
+        result.origin = { x: minX, y: minY };
+        return this.finishPattern(result);
+    }
+
+    /**
+     * Lays a sparse pattern out row by row, for callers that need rows.
+     * Throws when it covers too large an area.
+     */
+    private sparseToPatternFile(sparse: SparsePattern): PatternFile {
+        const result = this.emptyPatternFile();
+        result.rule = sparse.rule;
+        result.comments = sparse.comments;
+        const live = Array.from(sparse.cells, (value, i) => value + (i % 2 === 0 ? sparse.origin.x : sparse.origin.y));
+        return this.placeLiveCells(result, live, 1);
+    }
+
+    private finishPattern(result: PatternFile): PatternFile {
+        result.cells = result.states.map(row => Array.from(row, state => state === 1));
+        return result;
+    }
+
+    /**
+     * Writes a two-state pattern as RLE. See statesToRLE.
+     */
+    patternToRLE(pattern: boolean[][], options: PatternWriteOptions = {}): string {
+        return this.statesToRLE(pattern.map(row => Uint8Array.from(row, alive => alive ? 1 : 0)), options);
+    }
+
+    /**
+     * Writes cell states, by row then column, as RLE the way Golly does: the
+     * metadata lines, a header with the rule, then runs with blank rows merged
+     * into one `$` run and lines wrapped at 70 characters. States above 1 use
+     * the multi-state letters, and then dead cells are `.` instead of `b`.
+     */
+    statesToRLE(states: ArrayLike<number>[], options: PatternWriteOptions = {}): string {
+        const height = states.length;
+        const width = states[0]?.length ?? 0;
+        const multiState = states.some(row => Array.from(row).some(state => state > 1));
+        const symbol = (state: number) => {
+            if (!multiState) {
+                return state ? 'o' : 'b';
+            }
+            if (state === 0) {
+                return '.';
+            }
+            const letter = String.fromCharCode(65 + (state - 1) % 24);
+            return state > 24 ? String.fromCharCode(111 + Math.floor((state - 1) / 24)) + letter : letter;
+        };
 
-        let rle = '';
-        if (name) {
-            rle += `#N ${name}\n`;
+        const lines: string[] = [];
+        if (options.origin || options.generation !== undefined) {
+            const position = options.origin ? ` Pos=${options.origin.x},${options.origin.y}` : '';
+            const generation = options.generation !== undefined ? ` Gen=${options.generation}` : '';
+            lines.push(`#CXRLE${position}${generation}`);
         }
-        rle += `x = ${width}, y = ${height}, rule = B3/S23\n`;
+        if (options.name) {
+            lines.push(`#N ${options.name}`);
+        }
+        if (options.author) {
+            lines.push(`#O ${options.author}`);
+        }
+        for (const comment of options.comments ?? []) {
+            lines.push(comment ? `#C ${comment}` : '#C');
+        }
+        lines.push(`x = ${width}, y = ${height}, rule = ${options.rule ?? 'B3/S23'}`);
 
+        // Runs are never split across lines
+        let line = '';
+        const emit = (count: number, tag: string) => {
+            const run = count > 1 ? `${count}${tag}` : tag;
+            if (line.length + run.length > RLE_LINE_LENGTH) {
+                lines.push(line);
+                line = '';
+            }
+            line += run;
+        };
+
+        let pendingRows = 0;
         for (let y = 0; y < height; y++) {
-            let currentChar = '';
-            let count = 0;
+            const row = states[y];
+            let end = row.length;
+            while (end > 0 && row[end - 1] === 0) {
+                end--;
+            }
+            if (y > 0) {
+                pendingRows++;
+            }
+            if (end === 0) continue;
 
-            for (let x = 0; x < width; x++) {
-                const char = pattern[y][x] ? 'o' : 'b';
+            if (pendingRows > 0) {
+                emit(pendingRows, '$');
+                pendingRows = 0;
+            }
+            for (let x = 0; x < end;) {
+                let run = 1;
+                while (x + run < end && row[x + run] === row[x]) {
+                    run++;
+                }
+                emit(run, symbol(row[x]));
+                x += run;
+            }
+        }
+        emit(1, '!');
+        lines.push(line);
 
-                if (char === currentChar) {
-                    count++;
-                } else {
-                    if (currentChar !== '') {
-                        if (count === 1) {
-                            rle += currentChar;
-                        } else {
-                            rle += count + currentChar;
+        return lines.join('\n');
+    }
+
+    /**
+     * Writes cell states, by row then column, in the given format. Only RLE
+     * keeps states above 1; the other formats write state 1 cells.
+     */
+    writePattern(states: ArrayLike<number>[], format: PatternFormat, options: PatternWriteOptions = {}): string {
+        switch (format) {
+            case 'cells':
+                return this.statesToCells(states, options);
+            case 'life106':
+                return this.statesToLife106(states, options);
+            case 'life105':
+                return this.statesToLife105(states, options);
+            case 'macrocell': {
+                const cells: number[] = [];
+                states.forEach((row, y) => {
+                    for (let x = 0; x < row.length; x++) {
+                        if (row[x] === 1) {
+                            cells.push(x, y);
                         }
                     }
-                    currentChar = char;
-                    count = 1;
-                }
+                });
+                return this.cellsToMacrocell(cells, options);
             }
+            default:
+                return this.statesToRLE(states, options);
+        }
+    }
 
-            if (currentChar !== '' && currentChar === 'o') {
-                if (count === 1) {
-                    rle += currentChar;
-                } else {
-                    rle += count + currentChar;
+    /**
+     * Plaintext: `!Name:` and `!Author:` lines, comments, then the rows with
+     * trailing dead cells left off.
+     */
+    statesToCells(states: ArrayLike<number>[], options: PatternWriteOptions = {}): string {
+        const lines: string[] = [];
+        if (options.name) {
+            lines.push(`!Name: ${options.name}`);
+        }
+        if (options.author) {
+            lines.push(`!Author: ${options.author}`);
+        }
+        for (const comment of options.comments ?? []) {
+            lines.push(`!${comment}`);
+        }
+        for (const row of states) {
+            const text = Array.from(row, state => state === 1 ? 'O' : '.').join('').replace(/\.+$/, '');
+            // An empty line could be taken for the end of the pattern
+            lines.push(text || '.');
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Life 1.06: the header, then the coordinates of each live cell. The
+     * format has no room for the rule or metadata.
+     */
+    statesToLife106(states: ArrayLike<number>[], options: PatternWriteOptions = {}): string {
+        const { x: originX, y: originY } = options.origin ?? { x: 0, y: 0 };
+        const lines = ['#Life 1.06'];
+        for (let y = 0; y < states.length; y++) {
+            for (let x = 0; x < states[y].length; x++) {
+                if (states[y][x] === 1) {
+                    lines.push(`${originX + x} ${originY + y}`);
                 }
             }
+        }
+        return lines.join('\n') + '\n';
+    }
 
-            if (y < height - 1) {
-                rle += '$';
+    /**
+     * Life 1.05: the header, the name, author and comments as `#D` lines,
+     * the rule as `#N` or `#R survival/birth`, then one `#P` block per
+     * 80-column band. Rules without a survival/birth form are noted in a
+     * `#D` line instead.
+     */
+    statesToLife105(states: ArrayLike<number>[], options: PatternWriteOptions = {}): string {
+        const lines = ['#Life 1.05'];
+        if (options.name) {
+            lines.push(`#D ${options.name}`);
+        }
+        if (options.author) {
+            lines.push(`#D ${options.author}`);
+        }
+        for (const comment of options.comments ?? []) {
+            lines.push(`#D ${comment}`);
+        }
+
+        const rule = options.rule ?? 'B3/S23';
+        const birthSurvival = rule.match(/^B(\d*)\/S(\d*)$/i);
+        if (rule.toUpperCase() === 'B3/S23') {
+            lines.push('#N');
+        } else if (birthSurvival) {
+            lines.push(`#R ${birthSurvival[2]}/${birthSurvival[1]}`);
+        } else {
+            lines.push(`#D Rule: ${rule}`);
+        }
+
+        const { x: originX, y: originY } = options.origin ?? { x: 0, y: 0 };
+        const width = states[0]?.length ?? 0;
+        for (let start = 0; start < width; start += LIFE105_LINE_LENGTH) {
+            const rows = states.map(row => Array.from(row)
+                .slice(start, start + LIFE105_LINE_LENGTH)
+                .map(state => state === 1 ? '*' : '.')
+                .join('')
+                .replace(/\.+$/, ''));
+            const first = rows.findIndex(row => row !== '');
+            if (first === -1) continue;
+            let last = rows.length - 1;
+            while (rows[last] === '') {
+                last--;
+            }
+            lines.push(`#P ${originX + start} ${originY + first}`);
+            for (let y = first; y <= last; y++) {
+                lines.push(rows[y] || '.');
             }
         }
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Macrocell: the "[M2]" line, `#R` rule, `#G` generation and `#C`
+     * comments, then the quadtree as Golly writes it, with each distinct node
+     * written once before the nodes that use it. Takes live cells as
+     * interleaved x (column), y (row) pairs from the origin, so large layouts
+     * are never laid out row by row. Cells keep their coordinates: the root
+     * is centered on (0, 0).
+     */
+    cellsToMacrocell(cells: ArrayLike<number>, options: PatternWriteOptions = {}): string {
+        const { x: originX, y: originY } = options.origin ?? { x: 0, y: 0 };
+        const count = cells.length >> 1;
+        const xs = new Float64Array(count);
+        const ys = new Float64Array(count);
+        let extent = 0;
+        for (let i = 0; i < count; i++) {
+            xs[i] = originX + cells[i * 2];
+            ys[i] = originY + cells[i * 2 + 1];
+            extent = Math.max(extent, -xs[i], xs[i] + 1, -ys[i], ys[i] + 1);
+        }
 
-        rle += '!';
-        return rle;
+        const lines = ['[M2] (GameOfLife3D)', `#R ${options.rule ?? 'B3/S23'}`];
+        if (options.generation !== undefined) {
+            lines.push(`#G ${options.generation}`);
+        }
+        for (const comment of [options.name, options.author, ...(options.comments ?? [])]) {
+            if (comment !== undefined) {
+                lines.push(comment ? `#C ${comment}` : '#C');
+            }
+        }
+
+        // Identical nodes share one line; children always come first
+        const nodeLines: string[] = [];
+        const nodeNumbers = new Map<string, number>();
+        const addNode = (line: string) => {
+            let number = nodeNumbers.get(line);
+            if (number === undefined) {
+                nodeLines.push(line);
+                number = nodeLines.length;
+                nodeNumbers.set(line, number);
+            }
+            return number;
+        };
+
+        // Cells of each node are a range of `order`, partitioned in place into quarters
+        const order = Int32Array.from({ length: count }, (_, i) => i);
+        const partition = (start: number, end: number, before: (cell: number) => boolean) => {
+            let split = start;
+            for (let i = start; i < end; i++) {
+                if (before(order[i])) {
+                    const cell = order[i];
+                    order[i] = order[split];
+                    order[split++] = cell;
+                }
+            }
+            return split;
+        };
+        const build = (start: number, end: number, level: number, x: number, y: number): number => {
+            if (start === end) return 0;
+            if (level === 3) {
+                const rows = Array.from({ length: 8 }, () => new Array<string>(8).fill('.'));
+                for (let i = start; i < end; i++) {
+                    rows[ys[order[i]] - y][xs[order[i]] - x] = '*';
+                }
+                const text = rows.map(row => row.join('').replace(/\.+$/, '') + '$').join('');
+                return addNode(text.replace(/\$+$/, '$'));
+            }
+            const half = 2 ** (level - 1);
+            const middle = partition(start, end, cell => ys[cell] < y + half);
+            const top = partition(start, middle, cell => xs[cell] < x + half);
+            const bottom = partition(middle, end, cell => xs[cell] < x + half);
+            const nw = build(start, top, level - 1, x, y);
+            const ne = build(top, middle, level - 1, x + half, y);
+            const sw = build(middle, bottom, level - 1, x, y + half);
+            const se = build(bottom, end, level - 1, x + half, y + half);
+            return addNode(`${level} ${nw} ${ne} ${sw} ${se}`);
+        };
+
+        // A level k root spans -2^(k-1) to 2^(k-1) - 1 on both axes
+        let level = 4;
+        while (2 ** (level - 1) < extent) {
+            level++;
+        }
+        const corner = -(2 ** (level - 1));
+        if (build(0, count, level, corner, corner) === 0) {
+            nodeLines.push(`${level} 0 0 0 0`);
+        }
+        return lines.concat(nodeLines).join('\n') + '\n';
     }
 
     getBuiltInPattern(name: string): boolean[][] | null {
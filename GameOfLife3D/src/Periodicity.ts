@@ -0,0 +1,185 @@
+import { Generation } from './GameEngine.js';
+
+/**
+ * Periodicity detection. Every generation is hashed twice: once as-is and once
+ * relative to the corner of its bounding box, so the second hash ignores
+ * position. A repeated shape hash is checked cell by cell to rule out
+ * collisions, and the offset between the two copies tells an oscillator from
+ * a spaceship.
+ */
+
+export type PatternKind = 'extinct' | 'still-life' | 'oscillator' | 'spaceship';
+
+export interface PatternClassification {
+    kind: PatternKind;
+    /** Generations per cycle; 1 for still lifes and extinct patterns */
+    period: number;
+    /** Displacement per cycle; zero unless the pattern is a spaceship */
+    dx: number;
+    dy: number;
+    /** Generation number where the first copy of the cycle appears */
+    cycleStart: number;
+    /** Generation number where the repeat was found */
+    confirmedAt: number;
+}
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+function hashInt(hash: number, value: number): number {
+    for (let shift = 0; shift < 32; shift += 8) {
+        hash = Math.imul(hash ^ ((value >>> shift) & 0xff), FNV_PRIME);
+    }
+    return hash;
+}
+
+/**
+ * 32-bit FNV-1a hash of the live and dying cells, shifted by (-originX, -originY).
+ */
+function hashCells(generation: Generation, originX: number, originY: number): number {
+    let hash = hashInt(FNV_OFFSET, generation.population);
+    const coords = generation.coords;
+    for (let i = 0; i < coords.length; i += 2) {
+        hash = hashInt(hashInt(hash, coords[i] - originX), coords[i + 1] - originY);
+    }
+    const dyingCoords = generation.dyingCoords;
+    for (let i = 0; i < generation.dyingStates.length; i++) {
+        hash = hashInt(hashInt(hash, dyingCoords[i * 2] - originX), dyingCoords[i * 2 + 1] - originY);
+        hash = hashInt(hash, generation.dyingStates[i]);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Lowest x and lowest y over live and dying cells, or (0, 0) for an empty generation.
+ */
+function cellOrigin(generation: Generation): { x: number; y: number } {
+    let x = Infinity;
+    let y = Infinity;
+    const scan = (coords: Int32Array) => {
+        // Coordinates are sorted by x, so the first pair has the lowest x
+        if (coords.length > 0) x = Math.min(x, coords[0]);
+        for (let i = 1; i < coords.length; i += 2) {
+            y = Math.min(y, coords[i]);
+        }
+    };
+    scan(generation.coords);
+    scan(generation.dyingCoords);
+    return x === Infinity ? { x: 0, y: 0 } : { x, y };
+}
+
+/**
+ * True when `later` holds exactly the cells of `earlier` moved by (dx, dy).
+ * Translation keeps the x-then-y sort order, so the lists line up pair by pair.
+ */
+function isShiftedCopy(earlier: Generation, later: Generation, dx: number, dy: number): boolean {
+    const pairsMatch = (a: Int32Array, b: Int32Array) => {
+        if (a.length !== b.length) return false;
+        for (let i = 0; i < a.length; i += 2) {
+            if (b[i] !== a[i] + dx || b[i + 1] !== a[i + 1] + dy) return false;
+        }
+        return true;
+    };
+    if (!pairsMatch(earlier.coords, later.coords) || !pairsMatch(earlier.dyingCoords, later.dyingCoords)) {
+        return false;
+    }
+    return earlier.dyingStates.every((state, i) => later.dyingStates[i] === state);
+}
+
+/**
+ * Short label for the status bar, e.g. "Oscillator (p2)" or "Spaceship (p4, 1,1)".
+ */
+export function describeClassification(classification: PatternClassification): string {
+    const { period, dx, dy } = classification;
+    switch (classification.kind) {
+        case 'extinct':
+            return 'Died out';
+        case 'still-life':
+            return 'Still life';
+        case 'oscillator':
+            return `Oscillator (p${period})`;
+        case 'spaceship':
+            return `Spaceship (p${period}, ${dx},${dy})`;
+    }
+}
+
+/**
+ * Scans a growing list of generations for the first repeat. Only generations
+ * added since the previous call are hashed; a list that was replaced or
+ * truncated since then is scanned again from the start.
+ */
+export class PeriodicityDetector {
+    private rawHashes: number[] = [];
+    /** Shape hash to the positions of the generations that have it */
+    private shapes = new Map<number, number[]>();
+    private lastGeneration: Generation | null = null;
+    private classification: PatternClassification | null = null;
+
+    update(generations: ReadonlyArray<Generation>): PatternClassification | null {
+        const scanned = this.rawHashes.length;
+        if (scanned > generations.length || (scanned > 0 && generations[scanned - 1] !== this.lastGeneration)) {
+            this.reset();
+        }
+
+        for (let i = this.rawHashes.length; i < generations.length && !this.classification; i++) {
+            const generation = generations[i];
+            const origin = cellOrigin(generation);
+            const rawHash = hashCells(generation, 0, 0);
+            const shapeHash = hashCells(generation, origin.x, origin.y);
+
+            for (const j of this.shapes.get(shapeHash) ?? []) {
+                this.classification = this.classifyRepeat(generations[j], generation, j, i, rawHash);
+                if (this.classification) break;
+            }
+
+            this.rawHashes.push(rawHash);
+            const positions = this.shapes.get(shapeHash);
+            if (positions) {
+                positions.push(i);
+            } else {
+                this.shapes.set(shapeHash, [i]);
+            }
+            this.lastGeneration = generation;
+        }
+        return this.classification;
+    }
+
+    reset(): void {
+        this.rawHashes = [];
+        this.shapes.clear();
+        this.lastGeneration = null;
+        this.classification = null;
+    }
+
+    private classifyRepeat(
+        earlier: Generation,
+        later: Generation,
+        earlierPosition: number,
+        laterPosition: number,
+        rawHash: number
+    ): PatternClassification | null {
+        // Equal raw hashes point to a repeat in place; otherwise compare by origin
+        let dx = 0;
+        let dy = 0;
+        if (this.rawHashes[earlierPosition] !== rawHash) {
+            const earlierOrigin = cellOrigin(earlier);
+            const laterOrigin = cellOrigin(later);
+            dx = laterOrigin.x - earlierOrigin.x;
+            dy = laterOrigin.y - earlierOrigin.y;
+        }
+        if (!isShiftedCopy(earlier, later, dx, dy)) return null;
+
+        const period = laterPosition - earlierPosition;
+        let kind: PatternKind;
+        if (dx !== 0 || dy !== 0) {
+            kind = 'spaceship';
+        } else if (later.population === 0 && later.dyingCount === 0) {
+            kind = 'extinct';
+        } else if (period === 1) {
+            kind = 'still-life';
+        } else {
+            kind = 'oscillator';
+        }
+        return { kind, period, dx, dy, cycleStart: earlier.index, confirmedAt: later.index };
+    }
+}
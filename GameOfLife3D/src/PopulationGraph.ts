@@ -2,6 +2,9 @@ import { Generation } from './GameEngine.js';
 
 export type GraphSize = 'small' | 'medium' | 'large';
 
+/** Anything with a generation number and a population, 2D or 3D */
+type GraphPoint = Pick<Generation, 'index' | 'population'>;
+
 export class PopulationGraph {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
@@ -22,6 +25,7 @@ export class PopulationGraph {
     private boundHandleMouseLeave = () => this.handleMouseLeave();
 
     // Dirty-state tracking to skip redundant redraws
+    private lastGenerations: ReadonlyArray<GraphPoint> | null = null;
     private lastGenCount = -1;
     private lastRangeMin = -1;
     private lastRangeMax = -1;
@@ -103,17 +107,19 @@ export class PopulationGraph {
         return this.visible;
     }
 
-    public render(generations: Generation[], currentRange: { min: number, max: number }): void {
+    public render(generations: ReadonlyArray<GraphPoint>, currentRange: { min: number, max: number }): void {
         if (!this.visible || generations.length === 0) return;
 
         // Check if anything changed since the last render
         const genCount = generations.length;
         if (!this.isDirty &&
+            generations === this.lastGenerations &&
             genCount === this.lastGenCount &&
             currentRange.min === this.lastRangeMin &&
             currentRange.max === this.lastRangeMax) {
             return;
         }
+        this.lastGenerations = generations;
         this.lastGenCount = genCount;
         this.lastRangeMin = currentRange.min;
         this.lastRangeMax = currentRange.max;
@@ -132,9 +138,11 @@ export class PopulationGraph {
         this.ctx.fillRect(0, 0, width, height);
 
         // Extract population data
-        const populations = generations.map(g => g.liveCells.length);
+        const populations = generations.map(g => g.population);
         const maxPop = Math.max(...populations, 1);
         const numGens = populations.length;
+        // Generation numbers start later after a jump
+        const offset = generations[0]?.index ?? 0;
 
         // Draw axes
         this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
@@ -161,7 +169,7 @@ export class PopulationGraph {
         this.ctx.font = '10px monospace';
         this.ctx.textAlign = 'center';
         this.ctx.fillText('Population', width / 2, 12);
-        this.ctx.fillText(`Gen 0-${numGens - 1}`, width / 2, height - 5);
+        this.ctx.fillText(`Gen ${offset}-${offset + numGens - 1}`, width / 2, height - 5);
 
         // Y-axis labels
         this.ctx.textAlign = 'right';
@@ -237,7 +245,7 @@ export class PopulationGraph {
                 this.ctx.fill();
 
                 // Draw tooltip
-                const tooltipText = `Gen ${genIndex}: ${pop} cells`;
+                const tooltipText = `Gen ${offset + genIndex}: ${pop} cells`;
                 this.ctx.font = '10px monospace';
                 const textWidth = this.ctx.measureText(tooltipText).width;
                 const tooltipPadding = 4;
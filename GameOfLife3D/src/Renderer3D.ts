@@ -1,5 +1,9 @@
 import * as THREE from 'three';
 import { Generation } from './GameEngine.js';
+import { VoxelGeneration } from './VoxelEngine.js';
+
+/** What the spacetime stack shows: live cells, birth and death markers, or both */
+export type CellDisplayMode = 'cells' | 'events' | 'both';
 
 export interface RenderSettings {
     cellPadding: number;
@@ -13,18 +17,87 @@ export interface RenderSettings {
     edgeColorCycling?: boolean;
     edgeColorAngle?: number;
     faceColorCycling?: boolean;
+    /** Color faces by cell age instead of the gradient or cell color */
+    ageColoring?: boolean;
+    /** Age palette from newborn to oldest, 2 to MAX_PALETTE_COLORS hex colors */
+    agePalette?: string[];
+    /** Age that reaches the last palette color; older cells keep it */
+    ageScale?: number;
+    cellDisplay?: CellDisplayMode;
+}
+
+// Named age palettes, newborn color first
+export const AGE_PALETTES: Record<string, string[]> = {
+    fire: ['#ffffcc', '#ffcc00', '#ff6600', '#cc0000', '#330000'],
+    viridis: ['#fde725', '#5ec962', '#21918c', '#3b528b', '#440154'],
+    ocean: ['#e0ffff', '#00ffff', '#0080ff', '#0000a0'],
+    grayscale: ['#ffffff', '#303030']
+};
+
+const MAX_PALETTE_COLORS = 8;
+
+// Birth and death markers are translucent boxes in these colors
+const BIRTH_MARKER_COLOR = new THREE.Color('#33ff66');
+const DEATH_MARKER_COLOR = new THREE.Color('#ff3355');
+const EVENT_MARKER_OPACITY = 0.35;
+
+/** Independent sets of highlighted cells; each owner replaces only its own */
+export type HighlightChannel = 'census' | 'lineage';
+
+/** census: objects picked in the census; selected, past, future: a traced lineage */
+export type HighlightKind = 'census' | 'selected' | 'past' | 'future';
+
+export interface HighlightLayer {
+    /** Position of the generation in the list passed to renderGenerations */
+    layer: number;
+    /** Cells as interleaved x, y pairs */
+    cells: Int32Array;
+    kind: HighlightKind;
+}
+
+/** A live cell found under the pointer */
+export interface PickedCell {
+    /** Position of the generation in the list passed to renderGenerations */
+    layer: number;
+    x: number;
+    y: number;
 }
 
+// Highlights are boxes slightly larger than a cell slot so they enclose the cube
+const HIGHLIGHT_COLORS: Record<HighlightKind, THREE.Color> = {
+    census: new THREE.Color('#ffee00'),
+    selected: new THREE.Color('#ffffff'),
+    past: new THREE.Color('#00ccff'),
+    future: new THREE.Color('#ff44cc')
+};
+const HIGHLIGHT_SIZE = 1.1;
+
 // Shared GLSL: instanced vertex shader used by both face and edge materials
 const INSTANCED_VERTEX_SHADER = `
+    attribute float instanceDecay;
+    attribute float instanceAge;
     varying vec3 vWorldPosition;
+    varying float vDecay;
+    varying float vAge;
     void main() {
         vec4 worldPosition = modelMatrix * instanceMatrix * vec4(position, 1.0);
         vWorldPosition = worldPosition.xyz;
+        vDecay = instanceDecay;
+        vAge = instanceAge;
         gl_Position = projectionMatrix * viewMatrix * worldPosition;
     }
 `;
 
+// Shared GLSL: tints dying cells of Generations rules toward a dim ember color.
+// decay is 0 for live cells and grows toward 1 with each dying state.
+const DECAY_FUNCTIONS_GLSL = `
+    vec3 applyDecay(vec3 color, float decay) {
+        if (decay <= 0.0) return color;
+        vec3 ember = vec3(0.8, 0.15, 0.05);
+        return mix(color, ember, 0.5 + 0.5 * decay) * (1.0 - 0.6 * decay);
+    }
+`;
+
 // Shared GLSL: computes animated Y-position normalized to 0-1 and the 5-color gradient
 const GRADIENT_FUNCTIONS_GLSL = `
     vec3 computeGradientColor(float worldY, float minZ, float maxZ, float time) {
@@ -48,13 +121,49 @@ const GRADIENT_FUNCTIONS_GLSL = `
     }
 `;
 
+// Shared GLSL: piecewise-linear lookup into a palette of up to MAX_PALETTE_COLORS colors
+const AGE_PALETTE_GLSL = `
+    vec3 agePaletteColor(vec3 palette[${MAX_PALETTE_COLORS}], float paletteSize, float t) {
+        float scaled = clamp(t, 0.0, 1.0) * (paletteSize - 1.0);
+        vec3 color = palette[0];
+        for (int i = 1; i < ${MAX_PALETTE_COLORS}; i++) {
+            float segment = scaled - float(i - 1);
+            if (float(i) < paletteSize && segment > 0.0) {
+                color = mix(palette[i - 1], palette[i], min(segment, 1.0));
+            }
+        }
+        return color;
+    }
+`;
+
+export interface GridExtent {
+    minX: number;
+    minY: number;
+    width: number;
+    height: number;
+}
+
+// Extent growth is snapped to this many cells to avoid rebuilding grid lines every generation
+const EXTENT_STEP = 10;
+// Beyond this many lines per axis the grid is drawn coarser, in EXTENT_STEP multiples
+const MAX_GRID_LINES = 200;
+
 export class Renderer3D {
     private scene: THREE.Scene;
     private camera!: THREE.PerspectiveCamera;
     private renderer!: THREE.WebGLRenderer;
     private instancedMesh: THREE.InstancedMesh | null = null;
     private wireframeMesh: THREE.InstancedMesh | null = null;
+    private eventMesh: THREE.InstancedMesh | null = null;
+    private highlightMesh: THREE.InstancedMesh | null = null;
+    private highlights = new Map<HighlightChannel, HighlightLayer[]>();
+    private raycaster = new THREE.Raycaster();
+    private pointer = new THREE.Vector2();
     private gridLines: THREE.LineSegments | null = null;
+    // Per-instance decay (0 alive, up to 1 for the last dying state), shared by both meshes
+    private decayAttribute: THREE.InstancedBufferAttribute | null = null;
+    // Per-instance cell age in generations, shared by both meshes
+    private ageAttribute: THREE.InstancedBufferAttribute | null = null;
     private starField: THREE.Points | null = null;
     private generationLabels: THREE.Sprite[] = [];
     private galaxies: THREE.Mesh[] = [];
@@ -66,13 +175,23 @@ export class Renderer3D {
     private lastLabelStart: number = -1;
     private lastLabelEnd: number = -1;
     private lastLabelStep: number = -1;
+    private lastLabelOffset: number = -1;
 
     // Render state tracking
     private lastDisplayStart: number = -1;
     private lastDisplayEnd: number = -1;
     private lastGenerationCount: number = -1;
-
-    private gridSize: number = 50;
+    private lastFirstGeneration: Generation | null = null;
+    // Volume shown by renderVolume; undefined while the spacetime stack is shown
+    private lastVolume: VoxelGeneration | null | undefined = undefined;
+
+    private gridWidth: number = 50;
+    private gridHeight: number = 50;
+    // Rule state count; dying states are shaded relative to it
+    private stateCount: number = 2;
+    // Area covered by the grid lines and used to center the stack. Equals the grid
+    // unless live cells leave it (infinite plane mode), in which case it grows to follow them.
+    private extent: GridExtent = { minX: 0, minY: 0, width: 50, height: 50 };
     private cellPadding: number = 0.2;
     private cellColor: string = '#00ff88';
     private gradientStartColor: string = '#0000ff';
@@ -84,8 +203,13 @@ export class Renderer3D {
     private edgeColorCycling: boolean = true;
     private edgeColorAngle: number = 180;
     private faceColorCycling: boolean = true;
+    private ageColoring: boolean = false;
+    private agePalette: string[] = AGE_PALETTES.fire;
+    private ageScale: number = 50;
+    private cellDisplay: CellDisplayMode = 'cells';
 
     private maxInstances: number = 200 * 200 * 100;
+    private maxEventMarkers: number = 200 * 200 * 25;
     private currentInstanceCount: number = 0;
     private animationStartTime: number = Date.now();
 
@@ -310,12 +434,24 @@ export class Renderer3D {
         }
     }
 
-    setGridSize(size: number): void {
-        this.gridSize = size;
+    setGridSize(width: number, height: number = width): void {
+        this.gridWidth = width;
+        this.gridHeight = height;
+        this.extent = { minX: 0, minY: 0, width, height };
         this.recreateInstancedMesh();
         this.updateGridLines();
     }
 
+    /**
+     * Number of cell states of the current rule (C in B/S/C notation, 2 for two-state rules).
+     */
+    setStateCount(count: number): void {
+        if (count === this.stateCount) return;
+        this.stateCount = count;
+        // Force instance data to be rebuilt with the new decay values
+        this.lastDisplayStart = -1;
+    }
+
     setRenderSettings(settings: Partial<RenderSettings>): void {
         if (settings.cellPadding !== undefined) {
             this.cellPadding = settings.cellPadding / 100;
@@ -360,6 +496,22 @@ export class Renderer3D {
             this.faceColorCycling = settings.faceColorCycling;
             this.recreateInstancedMesh();
         }
+        if (settings.agePalette !== undefined) {
+            this.agePalette = settings.agePalette.slice(0, MAX_PALETTE_COLORS);
+            this.updateAgeUniforms();
+        }
+        if (settings.ageScale !== undefined) {
+            this.ageScale = Math.max(1, settings.ageScale);
+            this.updateAgeUniforms();
+        }
+        if (settings.ageColoring !== undefined) {
+            this.ageColoring = settings.ageColoring;
+            this.recreateInstancedMesh();
+        }
+        if (settings.cellDisplay !== undefined && settings.cellDisplay !== this.cellDisplay) {
+            this.cellDisplay = settings.cellDisplay;
+            this.recreateEventMesh();
+        }
     }
 
     private updateEdgeColorAngle(): void {
@@ -380,10 +532,40 @@ export class Renderer3D {
 
         const cellSize = 1 - this.cellPadding;
         const geometry = new THREE.BoxGeometry(cellSize, cellSize, cellSize);
-
-        // Create solid mesh material - either gradient shader or solid Lambert
+        this.decayAttribute = new THREE.InstancedBufferAttribute(new Float32Array(this.maxInstances), 1);
+        this.decayAttribute.setUsage(THREE.DynamicDrawUsage);
+        geometry.setAttribute('instanceDecay', this.decayAttribute);
+        this.ageAttribute = new THREE.InstancedBufferAttribute(new Float32Array(this.maxInstances), 1);
+        this.ageAttribute.setUsage(THREE.DynamicDrawUsage);
+        geometry.setAttribute('instanceAge', this.ageAttribute);
+
+        // Create solid mesh material - age palette, gradient shader or solid Lambert
         let material: THREE.Material;
-        if (this.faceColorCycling) {
+        if (this.ageColoring) {
+            material = new THREE.ShaderMaterial({
+                uniforms: {
+                    palette: { value: this.getPaletteColors() },
+                    paletteSize: { value: this.agePalette.length },
+                    ageScale: { value: this.ageScale }
+                },
+                vertexShader: INSTANCED_VERTEX_SHADER,
+                fragmentShader: `
+                    uniform vec3 palette[${MAX_PALETTE_COLORS}];
+                    uniform float paletteSize;
+                    uniform float ageScale;
+                    varying float vDecay;
+                    varying float vAge;
+
+                    ${AGE_PALETTE_GLSL}
+                    ${DECAY_FUNCTIONS_GLSL}
+
+                    void main() {
+                        vec3 color = agePaletteColor(palette, paletteSize, vAge / ageScale);
+                        gl_FragColor = vec4(applyDecay(color, vDecay), 1.0);
+                    }
+                `
+            });
+        } else if (this.faceColorCycling) {
             material = new THREE.ShaderMaterial({
                 uniforms: {
                     startColor: { value: new THREE.Color(this.gradientStartColor) },
@@ -400,12 +582,14 @@ export class Renderer3D {
                     uniform float maxZ;
                     uniform float time;
                     varying vec3 vWorldPosition;
+                    varying float vDecay;
 
                     ${GRADIENT_FUNCTIONS_GLSL}
+                    ${DECAY_FUNCTIONS_GLSL}
 
                     void main() {
                         vec3 color = computeGradientColor(vWorldPosition.y, minZ, maxZ, time);
-                        gl_FragColor = vec4(color, 1.0);
+                        gl_FragColor = vec4(applyDecay(color, vDecay), 1.0);
                     }
                 `
             });
@@ -413,6 +597,7 @@ export class Renderer3D {
             material = new THREE.MeshLambertMaterial({
                 color: new THREE.Color(this.cellColor)
             });
+            this.addDecayShading(material);
         }
 
         // Create wireframe mesh - either with color cycling or static white
@@ -432,8 +617,10 @@ export class Renderer3D {
                     uniform float time;
                     uniform float hueAngle;
                     varying vec3 vWorldPosition;
+                    varying float vDecay;
 
                     ${GRADIENT_FUNCTIONS_GLSL}
+                    ${DECAY_FUNCTIONS_GLSL}
 
                     // RGB to HSL conversion
                     vec3 rgb2hsl(vec3 c) {
@@ -503,7 +690,7 @@ export class Renderer3D {
                             hsl.y = 1.0;
                         }
 
-                        vec3 edgeColor = hsl2rgb(hsl);
+                        vec3 edgeColor = applyDecay(hsl2rgb(hsl), vDecay);
 
                         gl_FragColor = vec4(edgeColor, 0.8);
                     }
@@ -520,6 +707,7 @@ export class Renderer3D {
                 opacity: 0.8,
                 depthWrite: false
             });
+            this.addDecayShading(wireframeMaterial);
         }
 
         this.instancedMesh = new THREE.InstancedMesh(geometry, material, this.maxInstances);
@@ -536,10 +724,84 @@ export class Renderer3D {
         this.lastDisplayStart = -1;
         this.lastDisplayEnd = -1;
         this.lastGenerationCount = -1;
+        this.lastFirstGeneration = null;
+        this.lastVolume = undefined;
+    }
+
+    /**
+     * Builds the translucent birth and death markers, or removes them when only
+     * live cells are shown. Markers are a little larger than the cells so a birth
+     * reads as a halo around the newborn cell when both are drawn.
+     */
+    private recreateEventMesh(): void {
+        if (this.eventMesh) {
+            this.scene.remove(this.eventMesh);
+            this.eventMesh.geometry.dispose();
+            if (this.eventMesh.material instanceof THREE.Material) {
+                this.eventMesh.material.dispose();
+            }
+            this.eventMesh.dispose();
+            this.eventMesh = null;
+        }
+
+        if (this.cellDisplay !== 'cells') {
+            const markerSize = 1 - this.cellPadding / 2;
+            const geometry = new THREE.BoxGeometry(markerSize, markerSize, markerSize);
+            const material = new THREE.MeshBasicMaterial({
+                transparent: true,
+                opacity: EVENT_MARKER_OPACITY,
+                depthWrite: false
+            });
+            this.eventMesh = new THREE.InstancedMesh(geometry, material, this.maxEventMarkers);
+            this.eventMesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+            // The bounding sphere would be computed once while empty and never grow
+            this.eventMesh.frustumCulled = false;
+            this.eventMesh.count = 0;
+            this.scene.add(this.eventMesh);
+        }
+
+        // Invalidate render state so cells and markers are rebuilt together
+        this.lastDisplayStart = -1;
+        this.lastVolume = undefined;
+    }
+
+    /**
+     * Injects the instanceDecay attribute into a built-in material so dying
+     * cells are tinted the same way as in the gradient shaders.
+     */
+    private addDecayShading(material: THREE.Material): void {
+        material.onBeforeCompile = (shader) => {
+            shader.vertexShader = 'attribute float instanceDecay;\nvarying float vDecay;\n' +
+                shader.vertexShader.replace('#include <begin_vertex>', '#include <begin_vertex>\n    vDecay = instanceDecay;');
+            shader.fragmentShader = 'varying float vDecay;\n' + DECAY_FUNCTIONS_GLSL +
+                shader.fragmentShader.replace(
+                    '#include <color_fragment>',
+                    '#include <color_fragment>\n    diffuseColor.rgb = applyDecay(diffuseColor.rgb, vDecay);'
+                );
+        };
+    }
+
+    /**
+     * Palette as a fixed-size uniform array, padded with the last color.
+     */
+    private getPaletteColors(): THREE.Color[] {
+        const colors: THREE.Color[] = [];
+        for (let i = 0; i < MAX_PALETTE_COLORS; i++) {
+            colors.push(new THREE.Color(this.agePalette[Math.min(i, this.agePalette.length - 1)]));
+        }
+        return colors;
+    }
+
+    private updateAgeUniforms(): void {
+        if (this.ageColoring && this.instancedMesh && this.instancedMesh.material instanceof THREE.ShaderMaterial) {
+            this.instancedMesh.material.uniforms.palette.value = this.getPaletteColors();
+            this.instancedMesh.material.uniforms.paletteSize.value = this.agePalette.length;
+            this.instancedMesh.material.uniforms.ageScale.value = this.ageScale;
+        }
     }
 
     private updateCellColor(): void {
-        if (this.instancedMesh && this.instancedMesh.material instanceof THREE.ShaderMaterial) {
+        if (!this.ageColoring && this.instancedMesh && this.instancedMesh.material instanceof THREE.ShaderMaterial) {
             this.instancedMesh.material.uniforms.startColor.value.set(this.gradientStartColor);
             this.instancedMesh.material.uniforms.endColor.value.set(this.gradientEndColor);
         }
@@ -566,14 +828,22 @@ export class Renderer3D {
         if (!this.showGridLines) return;
 
         const points: THREE.Vector3[] = [];
-        const halfSize = this.gridSize / 2;
-
-        for (let i = 0; i <= this.gridSize; i++) {
-            const pos = i - halfSize;
-            points.push(new THREE.Vector3(pos, 0, -halfSize));
-            points.push(new THREE.Vector3(pos, 0, halfSize));
-            points.push(new THREE.Vector3(-halfSize, 0, pos));
-            points.push(new THREE.Vector3(halfSize, 0, pos));
+        const halfWidth = this.extent.width / 2;
+        const halfHeight = this.extent.height / 2;
+        const largest = Math.max(this.extent.width, this.extent.height);
+        const spacing = largest <= MAX_GRID_LINES
+            ? 1
+            : Math.ceil(largest / MAX_GRID_LINES / EXTENT_STEP) * EXTENT_STEP;
+
+        for (const i of this.getGridLineOffsets(this.extent.width, spacing)) {
+            const pos = i - halfWidth;
+            points.push(new THREE.Vector3(pos, 0, -halfHeight));
+            points.push(new THREE.Vector3(pos, 0, halfHeight));
+        }
+        for (const j of this.getGridLineOffsets(this.extent.height, spacing)) {
+            const pos = j - halfHeight;
+            points.push(new THREE.Vector3(-halfWidth, 0, pos));
+            points.push(new THREE.Vector3(halfWidth, 0, pos));
         }
 
         const geometry = new THREE.BufferGeometry().setFromPoints(points);
@@ -587,6 +857,18 @@ export class Renderer3D {
         this.scene.add(this.gridLines);
     }
 
+    /**
+     * Line offsets every `spacing` cells, always including both edges.
+     */
+    private getGridLineOffsets(size: number, spacing: number): number[] {
+        const offsets: number[] = [];
+        for (let i = 0; i < size; i += spacing) {
+            offsets.push(i);
+        }
+        offsets.push(size);
+        return offsets;
+    }
+
     private updateGenerationLabels(): void {
         this.generationLabels.forEach(label => {
             this.scene.remove(label);
@@ -597,6 +879,7 @@ export class Renderer3D {
         this.lastLabelStart = -1;
         this.lastLabelEnd = -1;
         this.lastLabelStep = -1;
+        this.lastLabelOffset = -1;
     }
 
     renderGenerations(generations: Generation[], displayStart: number, displayEnd: number): void {
@@ -605,7 +888,7 @@ export class Renderer3D {
         }
 
         // Update gradient Y range based on actual display range (generations are now on Y axis)
-        if (this.instancedMesh && this.instancedMesh.material instanceof THREE.ShaderMaterial) {
+        if (!this.ageColoring && this.instancedMesh && this.instancedMesh.material instanceof THREE.ShaderMaterial) {
             this.instancedMesh.material.uniforms.minZ.value = displayStart;
             this.instancedMesh.material.uniforms.maxZ.value = displayEnd;
         }
@@ -618,55 +901,307 @@ export class Renderer3D {
         // Check if instance data needs to be updated
         const stateChanged = displayStart !== this.lastDisplayStart ||
                             displayEnd !== this.lastDisplayEnd ||
-                            generations.length !== this.lastGenerationCount;
+                            generations.length !== this.lastGenerationCount ||
+                            generations[0] !== this.lastFirstGeneration;
 
         if (stateChanged) {
+            this.updateExtent(generations, displayStart, displayEnd);
+
             let instanceIndex = 0;
-            const halfSize = this.gridSize / 2;
+            const centerX = this.extent.minX + this.extent.width / 2;
+            const centerZ = this.extent.minY + this.extent.height / 2;
 
-            for (let genIndex = displayStart; genIndex <= displayEnd && genIndex < generations.length; genIndex++) {
+            const showCells = this.cellDisplay !== 'events';
+            for (let genIndex = displayStart; showCells && genIndex <= displayEnd && genIndex < generations.length; genIndex++) {
                 const generation = generations[genIndex];
                 if (!generation) continue;
 
-                for (const cell of generation.liveCells) {
+                const coords = generation.coords;
+                for (let i = 0; i < coords.length; i += 2) {
                     if (instanceIndex >= this.maxInstances) break;
 
-                    const x = cell.x - halfSize;
+                    const x = coords[i] - centerX;
                     const y = genIndex;
-                    const z = cell.y - halfSize;
+                    const z = coords[i + 1] - centerZ;
 
                     this._instanceMatrix.setPosition(x, y, z);
                     this.instancedMesh!.setMatrixAt(instanceIndex, this._instanceMatrix);
                     this.wireframeMesh!.setMatrixAt(instanceIndex, this._instanceMatrix);
+                    this.decayAttribute!.setX(instanceIndex, 0);
+                    this.ageAttribute!.setX(instanceIndex, generation.ages[i >> 1]);
+                    instanceIndex++;
+                }
+
+                // Dying cells of Generations rules, shaded by how far they have decayed
+                const dyingCoords = generation.dyingCoords;
+                const dyingStates = generation.dyingStates;
+                for (let i = 0; i < dyingStates.length; i++) {
+                    if (instanceIndex >= this.maxInstances) break;
+
+                    this._instanceMatrix.setPosition(dyingCoords[i * 2] - centerX, genIndex, dyingCoords[i * 2 + 1] - centerZ);
+                    this.instancedMesh!.setMatrixAt(instanceIndex, this._instanceMatrix);
+                    this.wireframeMesh!.setMatrixAt(instanceIndex, this._instanceMatrix);
+                    this.decayAttribute!.setX(instanceIndex, Math.min(1, (dyingStates[i] - 1) / Math.max(1, this.stateCount - 2)));
+                    this.ageAttribute!.setX(instanceIndex, 0);
                     instanceIndex++;
                 }
             }
 
             this.currentInstanceCount = instanceIndex;
+            this.decayAttribute!.needsUpdate = true;
+            this.ageAttribute!.needsUpdate = true;
             this.instancedMesh!.count = this.currentInstanceCount;
             this.instancedMesh!.instanceMatrix.needsUpdate = true;
 
             this.wireframeMesh!.count = this.currentInstanceCount;
             this.wireframeMesh!.instanceMatrix.needsUpdate = true;
 
+            this.updateEventMarkers(generations, displayStart, displayEnd, centerX, centerZ);
+            // The extent may have moved under the highlighted cells
+            this.updateHighlightMesh();
+
             // Update tracking state
             this.lastDisplayStart = displayStart;
             this.lastDisplayEnd = displayEnd;
             this.lastGenerationCount = generations.length;
+            this.lastFirstGeneration = generations[0] ?? null;
+            this.lastVolume = undefined;
         }
 
         if (this.showGenerationLabels) {
-            this.createGenerationLabels(displayStart, displayEnd);
+            // Label with absolute generation numbers, which start later after a jump
+            this.createGenerationLabels(displayStart, displayEnd, generations[0]?.index ?? 0);
         }
     }
 
-    private createGenerationLabels(start: number, end: number): void {
+    /**
+     * Places a birth marker on every cell that came alive and a death marker on
+     * every cell that died in each displayed generation.
+     */
+    private updateEventMarkers(generations: Generation[], displayStart: number, displayEnd: number, centerX: number, centerZ: number): void {
+        const mesh = this.eventMesh;
+        if (!mesh) return;
+
+        let markerIndex = 0;
+        const addMarkers = (coords: Int32Array, genIndex: number, color: THREE.Color): void => {
+            for (let i = 0; i < coords.length && markerIndex < this.maxEventMarkers; i += 2) {
+                this._instanceMatrix.setPosition(coords[i] - centerX, genIndex, coords[i + 1] - centerZ);
+                mesh.setMatrixAt(markerIndex, this._instanceMatrix);
+                mesh.setColorAt(markerIndex, color);
+                markerIndex++;
+            }
+        };
+
+        for (let genIndex = displayStart; genIndex <= displayEnd && genIndex < generations.length; genIndex++) {
+            const generation = generations[genIndex];
+            if (!generation) continue;
+            addMarkers(generation.births, genIndex, BIRTH_MARKER_COLOR);
+            addMarkers(generation.deaths, genIndex, DEATH_MARKER_COLOR);
+        }
+
+        mesh.count = markerIndex;
+        mesh.instanceMatrix.needsUpdate = true;
+        if (mesh.instanceColor) {
+            mesh.instanceColor.needsUpdate = true;
+        }
+    }
+
+    /**
+     * Outlines cells of the spacetime stack, replacing the channel's previous
+     * highlight. Pass null to clear the channel.
+     */
+    setHighlight(channel: HighlightChannel, layers: HighlightLayer[] | null): void {
+        if (layers) {
+            this.highlights.set(channel, layers);
+        } else {
+            this.highlights.delete(channel);
+        }
+        this.updateHighlightMesh();
+    }
+
+    private updateHighlightMesh(): void {
+        let total = 0;
+        this.highlights.forEach(layers => layers.forEach(layer => total += layer.cells.length >> 1));
+
+        // Grow the mesh to fit; it is only ever as large as the biggest highlight so far
+        if (total > 0 && (!this.highlightMesh || this.highlightMesh.instanceMatrix.count < total)) {
+            if (this.highlightMesh) {
+                this.scene.remove(this.highlightMesh);
+                this.highlightMesh.geometry.dispose();
+                if (this.highlightMesh.material instanceof THREE.Material) {
+                    this.highlightMesh.material.dispose();
+                }
+                this.highlightMesh.dispose();
+            }
+            const geometry = new THREE.BoxGeometry(HIGHLIGHT_SIZE, HIGHLIGHT_SIZE, HIGHLIGHT_SIZE);
+            const material = new THREE.MeshBasicMaterial({
+                transparent: true,
+                opacity: 0.45,
+                depthWrite: false
+            });
+            this.highlightMesh = new THREE.InstancedMesh(geometry, material, total);
+            this.highlightMesh.frustumCulled = false;
+            this.scene.add(this.highlightMesh);
+        }
+        const mesh = this.highlightMesh;
+        if (!mesh) return;
+
+        let index = 0;
+        const centerX = this.extent.minX + this.extent.width / 2;
+        const centerZ = this.extent.minY + this.extent.height / 2;
+        this.highlights.forEach(layers => {
+            for (const { layer, cells, kind } of layers) {
+                for (let i = 0; i < cells.length; i += 2) {
+                    this._instanceMatrix.setPosition(cells[i] - centerX, layer, cells[i + 1] - centerZ);
+                    mesh.setMatrixAt(index, this._instanceMatrix);
+                    mesh.setColorAt(index, HIGHLIGHT_COLORS[kind]);
+                    index++;
+                }
+            }
+        });
+        mesh.count = index;
+        mesh.instanceMatrix.needsUpdate = true;
+        if (mesh.instanceColor) {
+            mesh.instanceColor.needsUpdate = true;
+        }
+    }
+
+    /**
+     * Finds the live cell cube under a point in client coordinates, or null.
+     * Only live cells of the spacetime stack can be picked, not dying cells or voxels.
+     */
+    pickCell(clientX: number, clientY: number): PickedCell | null {
+        if (!this.instancedMesh || this.lastVolume !== undefined) return null;
+
+        const rect = this.canvas.getBoundingClientRect();
+        this.pointer.set(
+            ((clientX - rect.left) / rect.width) * 2 - 1,
+            -((clientY - rect.top) / rect.height) * 2 + 1
+        );
+        this.raycaster.setFromCamera(this.pointer, this.camera);
+        // The cached bounding sphere does not follow instance updates
+        this.instancedMesh.computeBoundingSphere();
+
+        const centerX = this.extent.minX + this.extent.width / 2;
+        const centerZ = this.extent.minY + this.extent.height / 2;
+        for (const hit of this.raycaster.intersectObject(this.instancedMesh)) {
+            if (hit.instanceId === undefined || this.decayAttribute!.getX(hit.instanceId) > 0) continue;
+
+            this.instancedMesh.getMatrixAt(hit.instanceId, this._instanceMatrix);
+            const position = new THREE.Vector3().setFromMatrixPosition(this._instanceMatrix);
+            return {
+                layer: Math.round(position.y),
+                x: Math.round(position.x + centerX),
+                y: Math.round(position.z + centerZ)
+            };
+        }
+        return null;
+    }
+
+    /**
+     * Shows one generation of a 3D automaton as a voxel volume in place of the
+     * spacetime stack. Height is the vertical size of the volume.
+     */
+    renderVolume(generation: VoxelGeneration | null, width: number, height: number, depth: number): void {
+        if (!this.instancedMesh) {
+            this.recreateInstancedMesh();
+        }
+
+        // The gradient runs from the bottom to the top of the volume
+        if (!this.ageColoring && this.instancedMesh && this.instancedMesh.material instanceof THREE.ShaderMaterial) {
+            this.instancedMesh.material.uniforms.minZ.value = 0;
+            this.instancedMesh.material.uniforms.maxZ.value = height;
+        }
+        if (this.wireframeMesh && this.wireframeMesh.material instanceof THREE.ShaderMaterial) {
+            this.wireframeMesh.material.uniforms.minZ.value = 0;
+            this.wireframeMesh.material.uniforms.maxZ.value = height;
+        }
+
+        if (this.extent.minX !== 0 || this.extent.minY !== 0 ||
+            this.extent.width !== width || this.extent.height !== depth) {
+            this.extent = { minX: 0, minY: 0, width, height: depth };
+            this.updateGridLines();
+        }
+        // Generation labels belong to the spacetime stack
+        if (this.generationLabels.length > 0) {
+            this.updateGenerationLabels();
+        }
+
+        if (generation === this.lastVolume) return;
+
+        let instanceIndex = 0;
+        if (generation) {
+            const coords = generation.coords;
+            for (let i = 0; i < coords.length && instanceIndex < this.maxInstances; i += 3) {
+                this._instanceMatrix.setPosition(coords[i] - width / 2, coords[i + 1], coords[i + 2] - depth / 2);
+                this.instancedMesh!.setMatrixAt(instanceIndex, this._instanceMatrix);
+                this.wireframeMesh!.setMatrixAt(instanceIndex, this._instanceMatrix);
+                this.decayAttribute!.setX(instanceIndex, 0);
+                this.ageAttribute!.setX(instanceIndex, 0);
+                instanceIndex++;
+            }
+        }
+
+        this.currentInstanceCount = instanceIndex;
+        this.decayAttribute!.needsUpdate = true;
+        this.ageAttribute!.needsUpdate = true;
+        this.instancedMesh!.count = this.currentInstanceCount;
+        this.instancedMesh!.instanceMatrix.needsUpdate = true;
+        this.wireframeMesh!.count = this.currentInstanceCount;
+        this.wireframeMesh!.instanceMatrix.needsUpdate = true;
+
+        // Births, deaths and highlights only apply to the spacetime stack
+        if (this.eventMesh) {
+            this.eventMesh.count = 0;
+        }
+        if (this.highlightMesh) {
+            this.highlightMesh.count = 0;
+        }
+
+        this.lastVolume = generation;
+        // The spacetime stack has to be rebuilt when it is shown again
+        this.lastDisplayStart = -1;
+    }
+
+    /**
+     * Grows the extent to cover every live cell in the displayed range, never
+     * shrinking below the grid itself. Rebuilds grid lines and labels when it changes.
+     */
+    private updateExtent(generations: Generation[], displayStart: number, displayEnd: number): void {
+        let minX = 0;
+        let minY = 0;
+        let maxX = this.gridWidth;
+        let maxY = this.gridHeight;
+
+        for (let genIndex = displayStart; genIndex <= displayEnd && genIndex < generations.length; genIndex++) {
+            const bounds = generations[genIndex]?.getBounds();
+            if (!bounds) continue;
+            minX = Math.min(minX, Math.floor(bounds.minX / EXTENT_STEP) * EXTENT_STEP);
+            minY = Math.min(minY, Math.floor(bounds.minY / EXTENT_STEP) * EXTENT_STEP);
+            maxX = Math.max(maxX, Math.ceil((bounds.maxX + 1) / EXTENT_STEP) * EXTENT_STEP);
+            maxY = Math.max(maxY, Math.ceil((bounds.maxY + 1) / EXTENT_STEP) * EXTENT_STEP);
+        }
+
+        const width = maxX - minX;
+        const height = maxY - minY;
+        if (minX === this.extent.minX && minY === this.extent.minY &&
+            width === this.extent.width && height === this.extent.height) {
+            return;
+        }
+
+        this.extent = { minX, minY, width, height };
+        this.updateGridLines();
+        this.updateGenerationLabels();
+    }
+
+    private createGenerationLabels(start: number, end: number, offset: number): void {
         const step = Math.max(1, Math.floor((end - start) / 10));
 
         // Check if labels need to be recreated
         if (start === this.lastLabelStart &&
             end === this.lastLabelEnd &&
-            step === this.lastLabelStep) {
+            step === this.lastLabelStep &&
+            offset === this.lastLabelOffset) {
             return; // Range unchanged, skip recreation
         }
 
@@ -674,6 +1209,7 @@ export class Renderer3D {
         this.lastLabelStart = start;
         this.lastLabelEnd = end;
         this.lastLabelStep = step;
+        this.lastLabelOffset = offset;
 
         for (let i = start; i <= end; i += step) {
             const canvas = document.createElement('canvas');
@@ -686,7 +1222,7 @@ export class Renderer3D {
             context.fillStyle = '#ffffff';
             context.font = '16px Arial';
             context.textAlign = 'center';
-            context.fillText(`Gen ${i}`, canvas.width / 2, canvas.height / 2 + 6);
+            context.fillText(`Gen ${offset + i}`, canvas.width / 2, canvas.height / 2 + 6);
 
             // Copy canvas data to ImageData to ensure texture independence
             const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
@@ -702,7 +1238,7 @@ export class Renderer3D {
             const material = new THREE.SpriteMaterial({ map: texture });
             const sprite = new THREE.Sprite(material);
 
-            sprite.position.set(this.gridSize / 2 + 5, i, 0);
+            sprite.position.set(this.extent.width / 2 + 5, i, 0);
             sprite.scale.set(8, 2, 1);
 
             this.scene.add(sprite);
@@ -718,13 +1254,25 @@ export class Renderer3D {
         return this.renderer;
     }
 
+    getScene(): THREE.Scene {
+        return this.scene;
+    }
+
+    /**
+     * Cells covered by the grid; cell (x, y) is drawn centered on world
+     * (x - minX - width / 2, layer, y - minY - height / 2).
+     */
+    getExtent(): GridExtent {
+        return { ...this.extent };
+    }
+
     render(): void {
         // Update animation time (5 second cycle)
         const elapsed = (Date.now() - this.animationStartTime) / 1000; // seconds
         const cycleTime = 5.0; // 5 seconds per cycle
         const normalizedTime = (elapsed % cycleTime) / cycleTime; // 0 to 1
 
-        if (this.faceColorCycling && this.instancedMesh && this.instancedMesh.material instanceof THREE.ShaderMaterial) {
+        if (this.faceColorCycling && !this.ageColoring && this.instancedMesh && this.instancedMesh.material instanceof THREE.ShaderMaterial) {
             const range = this.instancedMesh.material.uniforms.maxZ.value -
                          this.instancedMesh.material.uniforms.minZ.value;
             this.instancedMesh.material.uniforms.time.value = normalizedTime * range;
@@ -758,6 +1306,8 @@ export class Renderer3D {
     dispose(): void {
         this.instancedMesh?.dispose();
         this.wireframeMesh?.dispose();
+        this.eventMesh?.dispose();
+        this.highlightMesh?.dispose();
         this.gridLines?.geometry.dispose();
         if (this.gridLines?.material instanceof THREE.Material) {
             this.gridLines.material.dispose();
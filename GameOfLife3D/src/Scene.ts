@@ -0,0 +1,116 @@
+import { PatternLoader } from './PatternLoader.js';
+
+/**
+ * Scenes: several patterns placed at explicit offsets in generation 0, such
+ * as two gliders set up to collide or a gun with an eater in its path. Each
+ * placement names a built-in pattern or carries RLE, and can be flipped,
+ * rotated and advanced a few generations on its own before it is placed.
+ */
+
+export interface ScenePlacement {
+    /** Built-in pattern name such as "glider", or an RLE pattern */
+    pattern: string;
+    /** Cell of generation 0 that the pattern's [0][0] cell lands on */
+    x: number;
+    y: number;
+    /** Quarter turns clockwise, 0-3, applied after the flip */
+    rotation: number;
+    /** Mirror each pattern row before rotating */
+    flip: boolean;
+    /** Generations to advance the pattern on its own before placing it */
+    phase: number;
+}
+
+// Pre-advancing is done on the main thread, so keep it short
+export const MAX_SCENE_PHASE = 1000;
+const MAX_SCENE_PLACEMENTS = 100;
+
+/**
+ * Checks a parsed scene description (an array of placements) and fills in
+ * defaults for the optional fields. Throws with a message naming the bad
+ * placement.
+ */
+export function parseScene(value: unknown): ScenePlacement[] {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new Error('A scene is a non-empty list of placements');
+    }
+    if (value.length > MAX_SCENE_PLACEMENTS) {
+        throw new Error(`A scene holds at most ${MAX_SCENE_PLACEMENTS} placements`);
+    }
+
+    return value.map((item, i) => {
+        const placement = item as Partial<ScenePlacement> | null;
+        const fail = (problem: string) => new Error(`Placement ${i + 1}: ${problem}`);
+        if (!placement || typeof placement !== 'object' || typeof placement.pattern !== 'string' || !placement.pattern.trim()) {
+            throw fail('missing pattern');
+        }
+        if (!Number.isInteger(placement.x) || !Number.isInteger(placement.y)) {
+            throw fail('x and y must be whole numbers');
+        }
+        const rotation = placement.rotation ?? 0;
+        if (!Number.isInteger(rotation)) {
+            throw fail('rotation must be a whole number of quarter turns');
+        }
+        const phase = placement.phase ?? 0;
+        if (!Number.isInteger(phase) || phase < 0 || phase > MAX_SCENE_PHASE) {
+            throw fail(`phase must be 0-${MAX_SCENE_PHASE}`);
+        }
+        return {
+            pattern: placement.pattern.trim(),
+            x: placement.x!,
+            y: placement.y!,
+            rotation: ((rotation % 4) + 4) % 4,
+            flip: placement.flip === true,
+            phase
+        };
+    });
+}
+
+/**
+ * The pattern of a placement, flipped and rotated but not yet advanced.
+ * Throws when the pattern is neither a built-in name nor valid RLE.
+ */
+export function placementPattern(placement: ScenePlacement, patternLoader: PatternLoader): boolean[][] {
+    let pattern = patternLoader.getBuiltInPattern(placement.pattern) ?? patternLoader.parseRLE(placement.pattern);
+    if (!patternLoader.validatePattern(pattern)) {
+        throw new Error(`Pattern "${placement.pattern}" is empty`);
+    }
+    if (placement.flip) {
+        pattern = patternLoader.flipPattern(pattern);
+    }
+    for (let i = 0; i < placement.rotation; i++) {
+        pattern = patternLoader.rotatePattern(pattern);
+    }
+    return pattern;
+}
+
+/**
+ * Compact form for share links: placements separated by semicolons, each
+ * "x,y,rotation,flip,phase,pattern" with flip as 0 or 1. The pattern comes
+ * last so RLE headers may contain commas.
+ */
+export function encodeScene(scene: ScenePlacement[]): string {
+    return scene
+        .map(({ x, y, rotation, flip, phase, pattern }) => `${x},${y},${rotation},${flip ? 1 : 0},${phase},${pattern}`)
+        .join(';');
+}
+
+/**
+ * Reads the form written by encodeScene. Throws on malformed input.
+ */
+export function decodeScene(text: string): ScenePlacement[] {
+    return parseScene(text.split(';').map(part => {
+        const match = part.match(/^(-?\d+),(-?\d+),(\d),([01]),(\d+),([\s\S]+)$/);
+        if (!match) {
+            throw new Error(`Invalid scene placement "${part}"`);
+        }
+        return {
+            x: parseInt(match[1], 10),
+            y: parseInt(match[2], 10),
+            rotation: parseInt(match[3], 10),
+            flip: match[4] === '1',
+            phase: parseInt(match[5], 10),
+            pattern: match[6]
+        };
+    }));
+}
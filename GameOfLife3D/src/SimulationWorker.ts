@@ -0,0 +1,119 @@
+import { GameEngine, Generation, GenerationCells } from './GameEngine.js';
+import { SimulationConfig, WorkerRequest, WorkerResponse } from './WorkerGameEngine.js';
+
+// Web Worker entry point: runs GameEngine computation off the main thread.
+// Generations are streamed back in batches so the UI can render partial results.
+
+const scope = self as unknown as Worker;
+
+// Post a batch at least this often so the main thread sees steady progress
+const BATCH_INTERVAL_MS = 50;
+
+let activeJobId = 0;
+
+function post(response: WorkerResponse): void {
+    scope.postMessage(response);
+}
+
+function createEngine(config: SimulationConfig, seed: GenerationCells): GameEngine {
+    const { gridWidth, gridHeight } = config;
+    const engine = new GameEngine(gridWidth, gridHeight);
+    engine.importState({
+        ...config,
+        generations: [Generation.fromCells(0, gridWidth, gridHeight, seed)],
+        currentGeneration: 0
+    });
+    return engine;
+}
+
+function postError(jobId: number, error: unknown): void {
+    post({
+        type: 'error',
+        jobId,
+        message: error instanceof Error ? error.message : String(error)
+    });
+}
+
+function runJump(request: Extract<WorkerRequest, { type: 'jump' }>): void {
+    try {
+        // The seed is generation 0; HashLife runs as a single uninterruptible step
+        const engine = createEngine(request.config, {
+            coords: request.seed,
+            dyingCoords: new Int32Array(0),
+            dyingStates: new Uint8Array(0)
+        });
+        engine.jumpToGeneration(request.target);
+        const generation = engine.getGeneration(0)!;
+        post({ type: 'jumped', jobId: request.jobId, index: generation.index, coords: generation.coords });
+    } catch (error) {
+        postError(request.jobId, error);
+    }
+}
+
+function runJob(request: Extract<WorkerRequest, { type: 'compute' }>): void {
+    const engine = createEngine(request.config, request.seed);
+
+    // The seed is the last generation the main thread already has
+    const remaining = request.targetCount - request.startIndex - 1;
+    let computed = 0;
+
+    const step = (): void => {
+        // A newer job or an explicit cancel replaced this one
+        if (activeJobId !== request.jobId) return;
+
+        const generations: GenerationCells[] = [];
+        const batchStart = performance.now();
+
+        try {
+            while (computed < remaining && performance.now() - batchStart < BATCH_INTERVAL_MS) {
+                if (!engine.computeSingleGeneration()) {
+                    break;
+                }
+                const generation = engine.getGeneration(engine.getGenerationCount() - 1)!;
+                generations.push({
+                    coords: generation.coords,
+                    dyingCoords: generation.dyingCoords,
+                    dyingStates: generation.dyingStates
+                });
+                computed++;
+            }
+        } catch (error) {
+            postError(request.jobId, error);
+            return;
+        }
+
+        if (generations.length > 0) {
+            post({ type: 'generations', jobId: request.jobId, generations });
+        }
+
+        if (computed >= remaining || generations.length === 0) {
+            post({ type: 'complete', jobId: request.jobId });
+            return;
+        }
+
+        // Yield so cancel messages can be processed between batches
+        setTimeout(step, 0);
+    };
+
+    step();
+}
+
+scope.onmessage = (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+
+    switch (request.type) {
+        case 'compute':
+            activeJobId = request.jobId;
+            runJob(request);
+            break;
+        case 'jump':
+            activeJobId = request.jobId;
+            runJump(request);
+            break;
+        case 'cancel':
+            if (activeJobId === request.jobId) {
+                activeJobId = 0;
+            }
+            break;
+    }
+};
@@ -0,0 +1,92 @@
+/**
+ * Reproducible random soups. A soup is an N x N square of random cells with a
+ * given density and symmetry, drawn from a seeded PRNG, so the seed and the
+ * options are enough to rebuild it (as apgsearch defines its soups).
+ */
+
+/** C1: no symmetry; C2: 180 degree rotation; C4: 90 degree rotation; D8: rotations and reflections */
+export type SoupSymmetry = 'C1' | 'C2' | 'C4' | 'D8';
+
+export const SOUP_SYMMETRIES: ReadonlyArray<SoupSymmetry> = ['C1', 'C2', 'C4', 'D8'];
+
+export interface SoupOptions {
+    /** Side length N of the square region */
+    size: number;
+    /** Probability that a cell is alive, 0-1 */
+    density: number;
+    symmetry: SoupSymmetry;
+}
+
+export const DEFAULT_SOUP: SoupOptions = { size: 16, density: 0.5, symmetry: 'C1' };
+
+export function isSoupSymmetry(value: string): value is SoupSymmetry {
+    return (SOUP_SYMMETRIES as ReadonlyArray<string>).includes(value);
+}
+
+/**
+ * Seeded PRNG (mulberry32) returning floats in [0, 1).
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A fresh unsigned 32-bit seed for when the user does not pick one.
+ */
+export function createSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Cells that must share a state with (i, j) under the symmetry, including (i, j) itself.
+ */
+function symmetryOrbit(i: number, j: number, n: number, symmetry: SoupSymmetry): Array<[number, number]> {
+    const last = n - 1;
+    switch (symmetry) {
+        case 'C2':
+            return [[i, j], [last - i, last - j]];
+        case 'C4':
+            return [[i, j], [j, last - i], [last - i, last - j], [last - j, i]];
+        case 'D8':
+            return [
+                [i, j], [j, last - i], [last - i, last - j], [last - j, i],
+                [j, i], [last - i, j], [last - j, last - i], [i, last - j]
+            ];
+        default:
+            return [[i, j]];
+    }
+}
+
+/**
+ * Builds the soup as a pattern. Cells are drawn in row-major order, one draw
+ * per symmetry orbit, so the same seed and options always give the same soup.
+ */
+export function generateSoup(seed: number, options: SoupOptions): boolean[][] {
+    const n = Math.max(1, Math.floor(options.size));
+    const random = createRandom(seed);
+    const pattern: boolean[][] = [];
+    const assigned: boolean[][] = [];
+    for (let i = 0; i < n; i++) {
+        pattern.push(new Array<boolean>(n).fill(false));
+        assigned.push(new Array<boolean>(n).fill(false));
+    }
+
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+            if (assigned[i][j]) continue;
+            const alive = random() < options.density;
+            for (const [x, y] of symmetryOrbit(i, j, n, options.symmetry)) {
+                pattern[x][y] = alive;
+                assigned[x][y] = true;
+            }
+        }
+    }
+    return pattern;
+}
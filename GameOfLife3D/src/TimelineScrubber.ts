@@ -20,6 +20,8 @@ export class TimelineScrubber {
   private totalGenerations = 0;
   private startGeneration = 0;
   private endGeneration = 0;
+  // Absolute number of the first stored generation (non-zero after a jump)
+  private generationOffset = 0;
   private isPlaying = false;
   private isDragging = false;
   private activeHandle: 'start' | 'end' = 'end';
@@ -287,10 +289,26 @@ export class TimelineScrubber {
     this.startGeneration = Math.min(this.startGeneration, maxGeneration);
     this.endGeneration = Math.min(this.endGeneration, maxGeneration);
     this.updateDisplay();
+    this.updateLabels();
+    this.track.setAttribute('aria-valuemax', maxGeneration.toString());
+  }
 
+  /**
+   * Shifts the displayed generation numbers; positions stay relative to the stored window.
+   */
+  public setGenerationOffset(offset: number): void {
+    if (offset === this.generationOffset) return;
+    this.generationOffset = offset;
+    this.updateDisplay();
+    this.updateLabels();
+  }
+
+  private updateLabels(): void {
+    const maxGeneration = Math.max(0, this.totalGenerations - 1);
+    const startLabel = this.container.querySelector('.timeline-label-start');
+    if (startLabel) startLabel.textContent = this.generationOffset.toString();
     const endLabel = this.container.querySelector('.timeline-label-end');
-    if (endLabel) endLabel.textContent = maxGeneration.toString();
-    this.track.setAttribute('aria-valuemax', maxGeneration.toString());
+    if (endLabel) endLabel.textContent = (this.generationOffset + maxGeneration).toString();
   }
 
   public setRange(start: number, end: number): void {
@@ -314,9 +332,11 @@ export class TimelineScrubber {
     this.rangeFill.style.left = `${rangeLeft}%`;
     this.rangeFill.style.width = `${rangeWidth}%`;
 
-    this.timeDisplay.textContent = `Gen ${this.startGeneration}-${this.endGeneration} / ${maxGeneration}`;
+    const start = this.generationOffset + this.startGeneration;
+    const end = this.generationOffset + this.endGeneration;
+    this.timeDisplay.textContent = `Gen ${start}-${end} / ${this.generationOffset + maxGeneration}`;
     this.track.setAttribute('aria-valuenow', this.endGeneration.toString());
-    this.track.setAttribute('aria-valuetext', `Gen ${this.startGeneration}-${this.endGeneration}`);
+    this.track.setAttribute('aria-valuetext', `Gen ${start}-${end}`);
   }
 
   private setActiveHandleFromEvent(event: PointerEvent): void {
@@ -1,13 +1,39 @@
-import { GameEngine } from './GameEngine.js';
-import { Renderer3D } from './Renderer3D.js';
+import { WorkerGameEngine } from './WorkerGameEngine.js';
+import { GameState, Generation } from './GameEngine.js';
+import { AGE_PALETTES, CellDisplayMode, HighlightLayer, PickedCell, Renderer3D } from './Renderer3D.js';
 import { CameraController } from './CameraController.js';
-import { PatternLoader } from './PatternLoader.js';
+import { isPatternFormat, MAX_PATTERN_CELLS, PATTERN_FORMAT_EXTENSIONS, PatternFormat, PatternLoader, PatternParseError, PatternWriteOptions, SparsePattern, toEngineRuleString } from './PatternLoader.js';
 import { PopulationGraph, GraphSize } from './PopulationGraph.js';
 import { URLHandler, URLConfig } from './URLHandler.js';
 import { TimelineScrubber } from './TimelineScrubber.js';
+import { VoxelEngine } from './VoxelEngine.js';
+import { BoundaryMode, isBoundaryMode } from './Boundary.js';
+import { createSeed, DEFAULT_SOUP, generateSoup, isSoupSymmetry, SoupOptions } from './Soup.js';
+import { describeClassification } from './Periodicity.js';
+import { CensusEntry, ObjectCensus } from './Census.js';
+import { CellEditor, CellSelection } from './CellEditor.js';
+import { isDrawTool, isEditSymmetry } from './DrawingTools.js';
+import { parseScene } from './Scene.js';
+import { CommandHistory } from './CommandHistory.js';
+
+/** spacetime: a 2D automaton stacked along Y over time; volume: a 3D automaton, one generation at a time */
+type SimulationMode = 'spacetime' | 'volume';
+
+/**
+ * What undo returns to: the engine configuration with only its first stored
+ * generation, from which the other generations are recomputed, and the view.
+ */
+interface HistorySnapshot {
+    state: GameState;
+    generationCount: number;
+    displayStart: number;
+    displayEnd: number;
+    patternName: string | null;
+}
 
 export interface UIState {
-    gridSize: number;
+    gridWidth: number;
+    gridHeight: number;
     displayStart: number;
     displayEnd: number;
     cellPadding: number;
@@ -18,13 +44,20 @@ export interface UIState {
     animationSpeed: number;
 }
 
+// Share links carry generation 0 as RLE; larger areas are refused rather than allocated
+const MAX_SHARED_AREA = 1 << 22;
+
 export class UIControls {
-    private gameEngine: GameEngine;
+    private gameEngine: WorkerGameEngine;
     private renderer: Renderer3D;
     private cameraController: CameraController;
     private patternLoader: PatternLoader;
     private populationGraph: PopulationGraph;
+    private voxelEngine: VoxelEngine;
+    private census: ObjectCensus;
+    private cellEditor: CellEditor;
     private timelineScrubber: TimelineScrubber | null = null;
+    private simulationMode: SimulationMode = 'spacetime';
 
     private elements: { [key: string]: HTMLElement } = {};
     private isPlaying = false;
@@ -38,19 +71,57 @@ export class UIControls {
     private frameCount = 0;
     private cachedTotalCells = 0;
     private currentPatternName: string | null = 'r-pentomino';
+    // Generation count of the background run in progress (0 when idle)
+    private computeTarget = 0;
+    // Census of the last displayed generation, recounted when that generation changes
+    private censusGeneration: Generation | null = null;
+    private censusEntries: CensusEntry[] = [];
+    private censusSelection: string | null = null;
+    // Cell whose lineage is shown, and the display range it was traced over
+    private lineageTarget: { cell: PickedCell; generation: Generation; start: number; end: number } | null = null;
+    private pointerDownPosition: { x: number; y: number } | null = null;
+    private history = new CommandHistory<HistorySnapshot>();
+    // State from before the drawing stroke in progress, recorded once it changes a cell
+    private strokeHistory: HistorySnapshot | null = null;
+    private boundOnKeyDown: (event: KeyboardEvent) => void;
 
     constructor(
-        gameEngine: GameEngine,
+        gameEngine: WorkerGameEngine,
         renderer: Renderer3D,
         cameraController: CameraController,
         patternLoader: PatternLoader,
-        populationGraph: PopulationGraph
+        populationGraph: PopulationGraph,
+        voxelEngine: VoxelEngine
     ) {
         this.gameEngine = gameEngine;
         this.renderer = renderer;
         this.cameraController = cameraController;
         this.patternLoader = patternLoader;
         this.populationGraph = populationGraph;
+        this.voxelEngine = voxelEngine;
+        this.census = new ObjectCensus(patternLoader);
+        this.cellEditor = new CellEditor({
+            camera: renderer.getCamera(),
+            scene: renderer.getScene(),
+            renderer: renderer.getRenderer(),
+            gridWidth: gameEngine.getGridWidth(),
+            gridHeight: gameEngine.getGridHeight(),
+            getExtent: () => this.renderer.getExtent(),
+            getCellState: (x, y) => this.gameEngine.getCellState(x, y),
+            onStrokeStart: () => {
+                this.strokeHistory = this.captureHistory();
+            },
+            onPaint: (cells, alive) => this.onPaint(cells, alive),
+            onEditModeChange: (active) => this.onEditModeChange(active),
+            getSelectionLayer: () => this.displayEnd,
+            onSelectionChange: (selection) => this.onSelectionChange(selection),
+            onStamp: (pattern, x, y) => this.onStamp(pattern, x, y),
+            onStampChange: (active) => this.onStampChange(active),
+            onCopyRequest: () => void this.copySelection(),
+            onPasteRequest: () => void this.pasteStamp()
+        });
+
+        this.boundOnKeyDown = (event: KeyboardEvent) => this.onKeyDown(event);
 
         this.initializeElements();
         this.initializeTimelineScrubber();
@@ -92,15 +163,22 @@ export class UIControls {
     private initializeElements(): void {
         const elementIds = [
             'toggle-controls', 'controls',
-            'grid-size', 'rule-preset', 'custom-rule-container', 'custom-birth', 'custom-survival', 'apply-custom-rule',
-            'toroidal-toggle',
+            'grid-width', 'grid-height', 'rule-preset', 'custom-rule-container', 'custom-birth', 'custom-survival', 'custom-states', 'custom-neighborhood', 'custom-range', 'custom-middle', 'apply-custom-rule',
+            'boundary-mode', 'infinite-toggle', 'jump-target', 'jump-window', 'jump-button',
+            'simulation-mode', 'volume-controls', 'volume-rule', 'volume-rule-string', 'apply-volume-rule', 'volume-height', 'volume-seed',
             'cell-padding', 'padding-value', 'cell-color', 'grid-lines', 'generation-labels',
-            'face-color-cycling', 'edge-color-cycling', 'edge-color', 'edge-color-angle', 'angle-value',
+            'face-color-cycling', 'age-coloring', 'age-palette', 'age-scale', 'cell-display', 'edge-color-cycling', 'edge-color', 'edge-color-angle', 'angle-value',
             'graph-toggle', 'graph-size',
-            'load-pattern', 'load-pattern-btn', 'save-session', 'load-session', 'load-session-btn',
+            'soup-seed', 'soup-size', 'soup-density', 'soup-symmetry', 'soup-generate', 'soup-new-seed',
+            'scene-description', 'scene-build',
+            'census-toggle', 'census-summary', 'census-list',
+            'lineage-toggle', 'lineage-summary', 'lineage-clear',
+            'edit-mode-btn', 'clear-cells-btn', 'draw-tool', 'draw-symmetry', 'brush-size', 'spray-density', 'filled-shapes',
+            'selection-summary', 'copy-selection-btn', 'paste-rle-btn', 'stamp-rotate-btn', 'stamp-flip-h-btn', 'stamp-flip-v-btn', 'stamp-cancel-btn',
+            'load-pattern', 'load-pattern-btn', 'export-generation', 'export-format', 'export-btn', 'save-session', 'load-session', 'load-session-btn',
             'share-button',
             'reset-camera',
-            'status-generation', 'status-rule', 'status-fps', 'status-cells'
+            'status-generation', 'status-rule', 'status-pattern', 'status-edit', 'status-fps', 'status-cells', 'status-progress'
         ];
 
         elementIds.forEach(id => {
@@ -130,17 +208,58 @@ export class UIControls {
             this.elements['toggle-controls'].addEventListener('click', () => this.toggleControlsPanel());
         }
 
-        if (this.elements['grid-size']) {
-            this.elements['grid-size'].addEventListener('change', (e) => {
+        ['grid-width', 'grid-height'].forEach(id => {
+            if (this.elements[id]) {
+                this.elements[id].addEventListener('change', () => this.onGridSizeChange());
+            }
+        });
+
+        if (this.elements['boundary-mode']) {
+            this.elements['boundary-mode'].addEventListener('change', (e) => {
                 const target = e.target as HTMLSelectElement;
-                this.onGridSizeChange(parseInt(target.value));
+                if (isBoundaryMode(target.value)) {
+                    this.onBoundaryChange(target.value);
+                }
             });
         }
 
-        if (this.elements['toroidal-toggle']) {
-            this.elements['toroidal-toggle'].addEventListener('change', (e) => {
+        if (this.elements['infinite-toggle']) {
+            this.elements['infinite-toggle'].addEventListener('change', (e) => {
                 const target = e.target as HTMLInputElement;
-                this.onToroidalChange(target.checked);
+                this.onInfiniteChange(target.checked);
+            });
+        }
+
+        if (this.elements['jump-button']) {
+            this.elements['jump-button'].addEventListener('click', () => this.onJump());
+        }
+
+        if (this.elements['simulation-mode']) {
+            this.elements['simulation-mode'].addEventListener('change', (e) => {
+                const target = e.target as HTMLSelectElement;
+                this.setSimulationMode(target.value === 'volume' ? 'volume' : 'spacetime');
+            });
+        }
+
+        if (this.elements['volume-rule']) {
+            this.elements['volume-rule'].addEventListener('change', (e) => {
+                const target = e.target as HTMLSelectElement;
+                this.onVolumeRulePresetChange(target.value);
+            });
+        }
+
+        if (this.elements['apply-volume-rule']) {
+            this.elements['apply-volume-rule'].addEventListener('click', () => this.onApplyVolumeRule());
+        }
+
+        if (this.elements['volume-height']) {
+            this.elements['volume-height'].addEventListener('change', () => this.resizeVolume());
+        }
+
+        if (this.elements['volume-seed']) {
+            this.elements['volume-seed'].addEventListener('click', () => {
+                this.voxelEngine.initializeRandom();
+                this.restartVolume();
             });
         }
 
@@ -178,6 +297,40 @@ export class UIControls {
             });
         }
 
+        if (this.elements['age-coloring']) {
+            this.elements['age-coloring'].addEventListener('change', (e) => {
+                const target = e.target as HTMLInputElement;
+                this.onAgeColoringChange(target.checked);
+            });
+        }
+
+        if (this.elements['age-palette']) {
+            this.elements['age-palette'].addEventListener('change', (e) => {
+                const target = e.target as HTMLSelectElement;
+                const palette = AGE_PALETTES[target.value];
+                if (palette) {
+                    this.renderer.setRenderSettings({ agePalette: palette });
+                }
+            });
+        }
+
+        if (this.elements['age-scale']) {
+            this.elements['age-scale'].addEventListener('change', (e) => {
+                const target = e.target as HTMLInputElement;
+                const scale = parseInt(target.value, 10);
+                if (!isNaN(scale)) {
+                    this.renderer.setRenderSettings({ ageScale: Math.max(1, Math.min(1000, scale)) });
+                }
+            });
+        }
+
+        if (this.elements['cell-display']) {
+            this.elements['cell-display'].addEventListener('change', (e) => {
+                const target = e.target as HTMLSelectElement;
+                this.onCellDisplayChange(target.value as CellDisplayMode);
+            });
+        }
+
         // Disable color picker by default since face color cycling starts enabled
         const colorPicker = this.elements['cell-color'] as HTMLInputElement | undefined;
         if (colorPicker) {
@@ -246,6 +399,10 @@ export class UIControls {
             });
         }
 
+        if (this.elements['export-btn']) {
+            this.elements['export-btn'].addEventListener('click', () => this.exportGeneration());
+        }
+
         if (this.elements['save-session']) {
             this.elements['save-session'].addEventListener('click', () => this.saveSession());
         }
@@ -271,6 +428,97 @@ export class UIControls {
             this.elements['reset-camera'].addEventListener('click', () => this.resetCamera());
         }
 
+        if (this.elements['soup-generate']) {
+            this.elements['soup-generate'].addEventListener('click', () => this.onGenerateSoup(false));
+        }
+
+        if (this.elements['soup-new-seed']) {
+            this.elements['soup-new-seed'].addEventListener('click', () => this.onGenerateSoup(true));
+        }
+
+        if (this.elements['scene-build']) {
+            this.elements['scene-build'].addEventListener('click', () => this.onBuildScene());
+        }
+
+        if (this.elements['census-toggle']) {
+            this.elements['census-toggle'].addEventListener('change', () => this.updateCensus());
+        }
+
+        if (this.elements['lineage-toggle']) {
+            this.elements['lineage-toggle'].addEventListener('change', (e) => {
+                const target = e.target as HTMLInputElement;
+                if (!target.checked) {
+                    this.clearLineage();
+                }
+            });
+        }
+
+        if (this.elements['lineage-clear']) {
+            this.elements['lineage-clear'].addEventListener('click', () => this.clearLineage());
+        }
+
+        if (this.elements['edit-mode-btn']) {
+            this.elements['edit-mode-btn'].addEventListener('click', () => this.cellEditor.toggleEditMode());
+        }
+
+        if (this.elements['clear-cells-btn']) {
+            this.elements['clear-cells-btn'].addEventListener('click', () => {
+                if (this.isVolumeMode() || !confirm('Clear all cells in generation 0?')) return;
+                const before = this.captureHistory();
+                this.gameEngine.clearAllCells();
+                this.history.record('Clear cells', before);
+                this.onInitialGenerationEdited(before.generationCount);
+            });
+        }
+
+        ['draw-tool', 'draw-symmetry', 'brush-size', 'spray-density', 'filled-shapes'].forEach(id => {
+            if (this.elements[id]) {
+                this.elements[id].addEventListener('change', () => this.onDrawOptionsChange());
+            }
+        });
+
+        if (this.elements['copy-selection-btn']) {
+            this.elements['copy-selection-btn'].addEventListener('click', () => void this.copySelection());
+        }
+
+        if (this.elements['paste-rle-btn']) {
+            this.elements['paste-rle-btn'].addEventListener('click', () => void this.pasteStamp());
+        }
+
+        const stampTransforms: { [id: string]: (stamp: boolean[][]) => boolean[][] } = {
+            'stamp-rotate-btn': (stamp) => this.patternLoader.rotatePattern(stamp),
+            'stamp-flip-h-btn': (stamp) => this.patternLoader.flipPattern(stamp, true),
+            'stamp-flip-v-btn': (stamp) => this.patternLoader.flipPattern(stamp, false)
+        };
+        Object.entries(stampTransforms).forEach(([id, transform]) => {
+            if (this.elements[id]) {
+                this.elements[id].addEventListener('click', () => {
+                    const stamp = this.cellEditor.getStamp();
+                    if (stamp) {
+                        this.cellEditor.setStamp(transform(stamp));
+                    }
+                });
+            }
+        });
+
+        if (this.elements['stamp-cancel-btn']) {
+            this.elements['stamp-cancel-btn'].addEventListener('click', () => this.cellEditor.setStamp(null));
+        }
+
+        // A click that did not drag the camera picks a cell
+        const canvas = this.renderer.getRenderer().domElement;
+        canvas.addEventListener('mousedown', (e) => {
+            this.pointerDownPosition = { x: e.clientX, y: e.clientY };
+        });
+        canvas.addEventListener('click', (e) => {
+            const down = this.pointerDownPosition;
+            this.pointerDownPosition = null;
+            if (!down || Math.hypot(e.clientX - down.x, e.clientY - down.y) > 4) return;
+            this.onCanvasClick(e.clientX, e.clientY);
+        });
+
+        document.addEventListener('keydown', this.boundOnKeyDown);
+
         document.querySelectorAll('.pattern-btn').forEach(btn => {
             btn.addEventListener('click', (e) => {
                 const target = e.target as HTMLElement;
@@ -308,31 +556,260 @@ export class UIControls {
         });
     }
 
-    private onGridSizeChange(size: number): void {
-        this.gameEngine.setGridSize(size);
-        this.renderer.setGridSize(size);
+    private onGridSizeChange(): void {
+        const width = this.readGridDimension('grid-width', this.gameEngine.getGridWidth());
+        const height = this.readGridDimension('grid-height', this.gameEngine.getGridHeight());
+
+        this.history.record('Grid size', this.captureHistory());
+        this.gameEngine.setGridSize(width, height);
+        this.renderer.setGridSize(width, height);
+        this.syncGridSizeInputs();
+        if (this.isVolumeMode()) {
+            this.resizeVolume();
+        }
         this.syncDisplayRange();
         this.updateUI();
     }
 
-    private onToroidalChange(enabled: boolean): void {
-        this.gameEngine.setToroidal(enabled);
-        // Toroidal mode affects generation computation, so we need to recompute
+    /**
+     * Reads a grid dimension input, clamped to 10-400. Falls back when the input is empty or invalid.
+     */
+    private readGridDimension(id: string, fallback: number): number {
+        const value = parseInt((this.elements[id] as HTMLInputElement | undefined)?.value ?? '', 10);
+        return isNaN(value) ? fallback : Math.max(10, Math.min(400, value));
+    }
+
+    syncGridSizeInputs(): void {
+        const widthInput = this.elements['grid-width'] as HTMLInputElement | undefined;
+        if (widthInput) {
+            widthInput.value = this.gameEngine.getGridWidth().toString();
+        }
+        const heightInput = this.elements['grid-height'] as HTMLInputElement | undefined;
+        if (heightInput) {
+            heightInput.value = this.gameEngine.getGridHeight().toString();
+        }
+        this.cellEditor.setGridSize(this.gameEngine.getGridWidth(), this.gameEngine.getGridHeight());
+    }
+
+    private onBoundaryChange(boundary: BoundaryMode): void {
+        this.history.record('Boundary', this.captureHistory());
+        this.gameEngine.setBoundary(boundary);
+        this.voxelEngine.setToroidal(boundary === 'torus');
+        // The boundary mode affects generation computation, so we need to recompute
         // from the initial pattern if generations have been computed
-        const generations = this.gameEngine.getGenerations();
-        if (generations.length > 1) {
-            // Keep the initial generation (gen 0) and recompute
-            const gen0Cells = generations[0].cells;
-            const genCount = generations.length;
-            this.gameEngine.clear();
-            this.gameEngine.initializeFromPattern(gen0Cells);
-            this.gameEngine.computeGenerations(genCount);
+        this.recomputeGenerations();
+        if (this.isVolumeMode()) {
+            this.restartVolume();
+        }
+    }
+
+    private onInfiniteChange(enabled: boolean): void {
+        this.history.record('Infinite plane', this.captureHistory());
+        this.gameEngine.setInfinite(enabled);
+        this.syncBoundaryControls();
+        this.recomputeGenerations();
+    }
+
+    /**
+     * Edges have no meaning on an infinite plane, so the boundary select is
+     * disabled while infinite mode is on. Jumping ahead is only available there.
+     * The 3D volume is always bounded and wraps only for the torus.
+     */
+    syncBoundaryControls(): void {
+        const volume = this.isVolumeMode();
+        const infinite = this.gameEngine.isInfinite() && !volume;
+        this.voxelEngine.setToroidal(this.gameEngine.getBoundary() === 'torus');
+
+        const boundarySelect = this.elements['boundary-mode'] as HTMLSelectElement | undefined;
+        if (boundarySelect) {
+            boundarySelect.value = this.gameEngine.getBoundary();
+            boundarySelect.disabled = infinite;
+        }
+        const infiniteToggle = this.elements['infinite-toggle'] as HTMLInputElement | undefined;
+        if (infiniteToggle) {
+            infiniteToggle.checked = this.gameEngine.isInfinite();
+            infiniteToggle.disabled = volume;
+        }
+        ['jump-target', 'jump-window', 'jump-button'].forEach(id => {
+            const control = this.elements[id] as HTMLInputElement | HTMLButtonElement | undefined;
+            if (control) {
+                control.disabled = !infinite;
+            }
+        });
+    }
+
+    private isVolumeMode(): boolean {
+        return this.simulationMode === 'volume';
+    }
+
+    /**
+     * Switches between the 2D spacetime stack and the 3D volume. Both keep
+     * their generations, so switching back shows the previous run.
+     */
+    setSimulationMode(mode: SimulationMode): void {
+        this.stopAnimation();
+        if (mode === 'volume') {
+            this.cellEditor.setEditMode(false);
+        }
+        this.simulationMode = mode;
+
+        const modeSelect = this.elements['simulation-mode'] as HTMLSelectElement | undefined;
+        if (modeSelect) {
+            modeSelect.value = mode;
+        }
+        const volumeControls = this.elements['volume-controls'];
+        if (volumeControls) {
+            volumeControls.style.display = mode === 'volume' ? 'block' : 'none';
+        }
+        ['rule-preset', 'apply-custom-rule'].forEach(id => {
+            const control = this.elements[id] as HTMLSelectElement | HTMLButtonElement | undefined;
+            if (control) {
+                control.disabled = mode === 'volume';
+            }
+        });
+        this.syncBoundaryControls();
+
+        if (mode === 'volume') {
+            this.syncVolumeRuleInputs();
+            const sizeChanged = this.voxelEngine.getWidth() !== this.gameEngine.getGridWidth() ||
+                this.voxelEngine.getDepth() !== this.gameEngine.getGridHeight();
+            if (sizeChanged || this.voxelEngine.getGenerationCount() === 0) {
+                this.resizeVolume();
+            }
+        }
+
+        this.syncDisplayRange();
+        this.renderCurrentView();
+        this.updateUI();
+    }
+
+    /**
+     * Sizes the volume to the grid footprint and the volume height input, then reseeds it.
+     */
+    private resizeVolume(): void {
+        const heightInput = this.elements['volume-height'] as HTMLInputElement | undefined;
+        const parsedHeight = parseInt(heightInput?.value ?? '', 10);
+        const height = isNaN(parsedHeight) ? this.voxelEngine.getHeight() : Math.max(10, Math.min(100, parsedHeight));
+        if (heightInput) {
+            heightInput.value = height.toString();
+        }
+
+        this.voxelEngine.setSize(this.gameEngine.getGridWidth(), height, this.gameEngine.getGridHeight());
+        this.voxelEngine.initializeRandom();
+        this.restartVolume();
+    }
+
+    private onVolumeRulePresetChange(ruleKey: string): void {
+        if (ruleKey === 'custom') {
+            (this.elements['volume-rule-string'] as HTMLInputElement | undefined)?.focus();
+            return;
+        }
+        this.voxelEngine.setRule(ruleKey);
+        this.syncVolumeRuleInputs();
+        this.restartVolume();
+    }
+
+    private onApplyVolumeRule(): void {
+        const input = this.elements['volume-rule-string'] as HTMLInputElement | undefined;
+        if (!input) {
+            return;
+        }
+
+        try {
+            this.voxelEngine.setRuleString(input.value);
+        } catch (error) {
+            this.showToast(error instanceof Error ? error.message : 'Invalid rule', true);
+            return;
+        }
+        this.syncVolumeRuleInputs();
+        this.restartVolume();
+    }
+
+    private syncVolumeRuleInputs(): void {
+        const ruleSelect = this.elements['volume-rule'] as HTMLSelectElement | undefined;
+        if (ruleSelect) {
+            ruleSelect.value = this.voxelEngine.getCurrentRule();
+        }
+        const ruleInput = this.elements['volume-rule-string'] as HTMLInputElement | undefined;
+        if (ruleInput) {
+            ruleInput.value = this.voxelEngine.getRuleString();
+        }
+    }
+
+    /**
+     * Drops the volume's computed generations after a setting change and shows generation 0.
+     */
+    private restartVolume(): void {
+        this.voxelEngine.resetToInitialGeneration();
+        if (this.isVolumeMode()) {
             this.syncDisplayRange();
             this.renderCurrentView();
             this.updateUI();
         }
     }
 
+    /**
+     * Shows a single generation of the volume and collapses the timeline range onto it.
+     */
+    private showVolumeGeneration(generation: number): void {
+        const maxGen = Math.max(0, this.voxelEngine.getGenerationCount() - 1);
+        this.displayEnd = Math.max(0, Math.min(maxGen, generation));
+        this.displayStart = this.displayEnd;
+
+        this.timelineScrubber?.setTotalGenerations(this.voxelEngine.getGenerationCount());
+        this.timelineScrubber?.setRange(this.displayStart, this.displayEnd);
+        this.renderCurrentView();
+        this.updateUI();
+    }
+
+    private onJump(): void {
+        const targetInput = this.elements['jump-target'] as HTMLInputElement | undefined;
+        const windowInput = this.elements['jump-window'] as HTMLInputElement | undefined;
+        if (!targetInput || !windowInput) {
+            return;
+        }
+
+        const target = Number(targetInput.value);
+        const windowSize = parseInt(windowInput.value, 10);
+        if (!Number.isSafeInteger(target) || target < 0) {
+            this.showToast('Enter a whole generation number to jump to', true);
+            return;
+        }
+        if (!this.gameEngine.canJump()) {
+            this.showToast('Jumping needs infinite plane mode and a rule without B0', true);
+            return;
+        }
+
+        this.history.record('Jump', this.captureHistory());
+        void this.jumpToGeneration(target, isNaN(windowSize) ? 1 : Math.max(1, windowSize));
+    }
+
+    /**
+     * Jumps to generation `target` with HashLife, then computes `windowSize`
+     * generations from there for display.
+     * @returns true when both steps finished, false if cancelled or failed
+     */
+    async jumpToGeneration(target: number, windowSize: number): Promise<boolean> {
+        this.stopAnimation();
+        this.updateProgressStatus(`Jumping to generation ${target}...`);
+
+        try {
+            if (!await this.gameEngine.jumpToGenerationAsync(target)) {
+                return false;
+            }
+        } catch (error) {
+            console.error('Error jumping to generation:', error);
+            this.updateProgressStatus(null);
+            this.showToast(error instanceof Error ? error.message : 'Jump failed', true);
+            return false;
+        }
+
+        this.syncDisplayRange();
+        this.renderCurrentView();
+        this.updateUI();
+        return this.computeGenerations(windowSize);
+    }
+
     private onRulePresetChange(ruleKey: string): void {
         const customContainer = this.elements['custom-rule-container'];
 
@@ -349,6 +826,7 @@ export class UIControls {
             customContainer.style.display = 'none';
         }
 
+        this.history.record('Rule', this.captureHistory());
         this.gameEngine.setRule(ruleKey);
         this.recomputeGenerations();
     }
@@ -361,31 +839,136 @@ export class UIControls {
             return;
         }
 
-        const birthStr = birthInput.value.replace(/[^0-8]/g, '');
-        const survivalStr = survivalInput.value.replace(/[^0-8]/g, '');
+        // Digits with optional Hensel letters ("2-a", "23ce"), or "min..max" for Larger than Life
+        const birthStr = birthInput.value.replace(/\s/g, '').toLowerCase();
+        const survivalStr = survivalInput.value.replace(/\s/g, '').toLowerCase();
+
+        // Generations rules: dying cells take (states - 2) extra generations to clear
+        const statesInput = this.elements['custom-states'] as HTMLInputElement | undefined;
+        const parsedStates = parseInt(statesInput?.value ?? '2', 10);
+        const states = isNaN(parsedStates) ? 2 : parsedStates;
+
+        const neighborhood = (this.elements['custom-neighborhood'] as HTMLSelectElement | undefined)?.value ?? 'moore';
+        const range = parseInt((this.elements['custom-range'] as HTMLInputElement | undefined)?.value ?? '1', 10);
+        const middle = (this.elements['custom-middle'] as HTMLInputElement | undefined)?.checked ?? false;
 
-        const birth = birthStr.split('').map(Number).filter((n, i, a) => a.indexOf(n) === i);
-        const survival = survivalStr.split('').map(Number).filter((n, i, a) => a.indexOf(n) === i);
+        let rule: string;
+        if (range > 1) {
+            if (neighborhood === 'hexagonal') {
+                this.showToast('Larger than Life ranges need the Moore or von Neumann neighborhood', true);
+                return;
+            }
+            const toRange = (condition: string) => condition.includes('..') ? condition : `${condition}..${condition}`;
+            rule = `R${range},C${states > 2 ? states : 0},M${middle ? 1 : 0},` +
+                `S${toRange(survivalStr)},B${toRange(birthStr)},N${neighborhood === 'vonneumann' ? 'N' : 'M'}`;
+        } else {
+            const suffixes: Record<string, string> = { vonneumann: 'V', hexagonal: 'H' };
+            rule = `B${birthStr}/S${survivalStr}/C${states}${suffixes[neighborhood] ?? ''}`;
+        }
 
-        this.gameEngine.setCustomRule(birth, survival);
+        const before = this.captureHistory();
+        try {
+            this.gameEngine.setRuleString(rule);
+        } catch (error) {
+            this.showToast(error instanceof Error ? error.message : 'Invalid rule', true);
+            return;
+        }
+        this.history.record('Rule', before);
+        this.syncCustomRuleInputs();
         this.recomputeGenerations();
     }
 
+    /**
+     * Fills the custom rule inputs from the engine's current rule.
+     */
+    public syncCustomRuleInputs(): void {
+        const birthInput = this.elements['custom-birth'] as HTMLInputElement | undefined;
+        const survivalInput = this.elements['custom-survival'] as HTMLInputElement | undefined;
+        const statesInput = this.elements['custom-states'] as HTMLInputElement | undefined;
+        const neighborhoodSelect = this.elements['custom-neighborhood'] as HTMLSelectElement | undefined;
+        const rangeInput = this.elements['custom-range'] as HTMLInputElement | undefined;
+        const middleToggle = this.elements['custom-middle'] as HTMLInputElement | undefined;
+
+        if (birthInput) {
+            birthInput.value = this.gameEngine.getBirthCondition();
+        }
+        if (survivalInput) {
+            survivalInput.value = this.gameEngine.getSurvivalCondition();
+        }
+        if (statesInput) {
+            statesInput.value = this.gameEngine.getStateCount().toString();
+        }
+        if (neighborhoodSelect) {
+            neighborhoodSelect.value = this.gameEngine.getNeighborhood();
+        }
+        if (rangeInput) {
+            rangeInput.value = this.gameEngine.getRange().toString();
+        }
+        if (middleToggle) {
+            middleToggle.checked = this.gameEngine.getLargerThanLifeRule()?.middle ?? false;
+        }
+    }
+
     private recomputeGenerations(): void {
-        // Rule change affects generation computation, so we need to recompute
+        // Rule change affects generation computation, so we need to recompute.
+        // A run that was cancelled partway through restarts with its original target.
         const generations = this.gameEngine.getGenerations();
-        if (generations.length > 1) {
-            const gen0Cells = generations[0].cells;
-            const genCount = generations.length;
-            this.gameEngine.clear();
-            this.gameEngine.initializeFromPattern(gen0Cells);
-            this.gameEngine.computeGenerations(genCount);
+        const genCount = Math.max(generations.length, this.computeTarget);
+        const offset = this.gameEngine.getGenerationOffset();
+        if (offset > 0 && this.gameEngine.canJump()) {
+            // Redo the jump so the same generations are shown under the new settings
+            void this.jumpToGeneration(offset, genCount);
+        } else if (offset > 0 || (generations.length > 0 && genCount > 1)) {
+            this.gameEngine.resetToInitialGeneration();
             this.syncDisplayRange();
+            void this.computeGenerations(genCount);
         }
         this.renderCurrentView();
         this.updateUI();
     }
 
+    /**
+     * Computes generations up to `count` in the simulation worker, rendering
+     * batches as they stream in.
+     * @returns true when the run finished, false if it was cancelled
+     */
+    computeGenerations(count: number): Promise<boolean> {
+        this.computeTarget = count;
+
+        return this.gameEngine.computeGenerationsAsync(count, (completed, total) => {
+            this.onComputeProgress(completed, total);
+        }).catch((error) => {
+            console.error('Error computing generations:', error);
+            this.showToast(error instanceof Error ? error.message : 'Computation failed', true);
+            return false;
+        }).then((finished) => {
+            // A cancelled run may already have been replaced by a new one
+            if (!this.gameEngine.isComputing()) {
+                this.computeTarget = 0;
+                this.updateProgressStatus(null);
+            }
+            return finished;
+        });
+    }
+
+    private onComputeProgress(completed: number, total: number): void {
+        // 2D runs finishing in the background leave the 3D view alone
+        if (!this.isVolumeMode()) {
+            this.syncDisplayRange();
+            this.renderCurrentView();
+            this.updateUI();
+        }
+        this.updateProgressStatus(completed < total ? `Computing: ${completed}/${total}` : null);
+    }
+
+    private updateProgressStatus(text: string | null): void {
+        const progress = this.elements['status-progress'];
+        if (!progress) return;
+
+        progress.textContent = text ?? '';
+        progress.hidden = text === null;
+    }
+
     private startAnimation(): void {
         this.isPlaying = true;
         this.timelineScrubber?.setPlaying(this.isPlaying);
@@ -402,8 +985,21 @@ export class UIControls {
      */
     tick(timestamp: DOMHighResTimeStamp): void {
         if (!this.isPlaying) return;
+        if (this.isVolumeMode()) {
+            this.tickVolume(timestamp);
+            return;
+        }
+        // Hold stepping while a background run is still streaming generations
+        if (this.gameEngine.isComputing()) return;
 
         if (timestamp - this.lastAnimationTime > this.animationSpeed) {
+            // Once a cycle is confirmed, further generations only repeat it
+            if (this.gameEngine.getClassification()) {
+                this.stopAnimation();
+                this.updateUI();
+                return;
+            }
+
             const computed = this.gameEngine.computeSingleGeneration();
 
             if (computed) {
@@ -421,6 +1017,21 @@ export class UIControls {
         }
     }
 
+    /**
+     * Advances the volume one generation per animation step, replaying
+     * already computed generations before computing new ones.
+     */
+    private tickVolume(timestamp: DOMHighResTimeStamp): void {
+        if (timestamp - this.lastAnimationTime <= this.animationSpeed) return;
+        this.lastAnimationTime = timestamp;
+
+        const atEnd = this.displayEnd >= this.voxelEngine.getGenerationCount() - 1;
+        if (atEnd && !this.voxelEngine.computeSingleGeneration()) {
+            this.stopAnimation();
+            return;
+        }
+        this.showVolumeGeneration(this.displayEnd + 1);
+    }
 
     private onCellPaddingChange(padding: number): void {
         if (this.elements['padding-value']) {
@@ -488,6 +1099,25 @@ export class UIControls {
         this.renderCurrentView();
     }
 
+    private onAgeColoringChange(enabled: boolean): void {
+        this.renderer.setRenderSettings({ ageColoring: enabled });
+
+        // Palette controls only apply while coloring by age
+        ['age-palette', 'age-scale'].forEach(id => {
+            const control = this.elements[id] as HTMLInputElement | HTMLSelectElement | undefined;
+            if (control) {
+                control.disabled = !enabled;
+            }
+        });
+
+        this.renderCurrentView();
+    }
+
+    private onCellDisplayChange(mode: CellDisplayMode): void {
+        this.renderer.setRenderSettings({ cellDisplay: mode });
+        this.renderCurrentView();
+    }
+
     private onGraphToggleChange(visible: boolean): void {
         this.populationGraph.setVisible(visible);
     }
@@ -498,7 +1128,7 @@ export class UIControls {
     }
 
     private renderPopulationGraph(): void {
-        const generations = this.gameEngine.getGenerations();
+        const generations = this.isVolumeMode() ? this.voxelEngine.getGenerations() : this.gameEngine.getGenerations();
 
         this.populationGraph.render(generations, { min: this.displayStart, max: this.displayEnd });
     }
@@ -512,9 +1142,21 @@ export class UIControls {
         reader.onload = (e) => {
             const content = e.target?.result as string;
             try {
-                const pattern = this.patternLoader.parseRLE(content);
-                this.currentPatternName = null; // Custom pattern loaded from file
-                this.gameEngine.initializeFromPattern(pattern);
+                if (!this.isVolumeMode() && this.patternLoader.detectFormat(content, file.name) === 'macrocell') {
+                    if (!this.loadMacrocell(this.patternLoader.readMacrocell(content))) return;
+                } else {
+                    const patternFile = this.patternLoader.readPattern(content, file.name);
+                    if (this.isVolumeMode()) {
+                        this.loadVolumePattern(patternFile.cells);
+                        return;
+                    }
+                    this.history.record('Load pattern', this.captureHistory());
+                    if (patternFile.rule) {
+                        this.applyPatternRule(patternFile.rule);
+                    }
+                    this.currentPatternName = null; // Custom pattern loaded from file
+                    this.gameEngine.initializeFromPattern(patternFile.cells);
+                }
                 this.syncDisplayRange();
                 this.timelineScrubber?.setTotalGenerations(this.gameEngine.getGenerationCount());
                 this.timelineScrubber?.setRange(this.getDisplayStart(), this.getDisplayEnd());
@@ -522,24 +1164,174 @@ export class UIControls {
                 this.updateUI();
             } catch (error) {
                 console.error('Error loading pattern:', error);
-                alert('Error loading pattern file. Please check the format.');
+                const detail = error instanceof PatternParseError ? `\n\n${error.message}` : '';
+                alert(`Error loading pattern file. Please check the format.${detail}`);
             }
         };
 
         reader.readAsText(file);
     }
 
-    private saveSession(): void {
-        const state = this.gameEngine.exportState();
-        const blob = new Blob([JSON.stringify(state, null, 2)], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `gameoflife3d_session_${Date.now()}.json`;
-        a.click();
+    /**
+     * Places a macrocell pattern in generation 0. A pattern larger than the
+     * grid needs the infinite plane to keep its outer cells; otherwise it is
+     * refused with an alert and false is returned.
+     */
+    private loadMacrocell(pattern: SparsePattern): boolean {
+        // Pattern rows run along the engine's x axis
+        const gridWidth = this.gameEngine.getGridWidth();
+        const gridHeight = this.gameEngine.getGridHeight();
+        if (!this.gameEngine.isInfinite() && (pattern.height > gridWidth || pattern.width > gridHeight)) {
+            alert(`The pattern is ${pattern.height} x ${pattern.width} cells, larger than the ${gridWidth} x ${gridHeight} grid. Enlarge the grid or turn on Infinite Plane to load it.`);
+            return false;
+        }
 
-        URL.revokeObjectURL(url);
+        const cells = new Int32Array(pattern.cells.length);
+        for (let i = 0; i < cells.length; i += 2) {
+            cells[i] = pattern.cells[i + 1];
+            cells[i + 1] = pattern.cells[i];
+        }
+        this.history.record('Load pattern', this.captureHistory());
+        if (pattern.rule) {
+            this.applyPatternRule(pattern.rule);
+        }
+        this.currentPatternName = null;
+        this.gameEngine.initializeFromCells(cells, pattern.height, pattern.width);
+        return true;
+    }
+
+    /**
+     * Switches to the rule a pattern file was written for. A rule the engine
+     * cannot run leaves the current one in place with a warning.
+     */
+    private applyPatternRule(rule: string): void {
+        const previousName = this.gameEngine.getCurrentRule();
+        const previousRule = this.gameEngine.getRuleString();
+        try {
+            this.gameEngine.setRuleString(toEngineRuleString(rule));
+        } catch {
+            this.showToast(`The pattern's rule "${rule}" is not supported; keeping ${previousRule}`, true);
+            return;
+        }
+        // Keep the preset selected when the file uses the rule already running
+        if (previousName !== 'custom' && this.gameEngine.getRuleString() === previousRule) {
+            this.gameEngine.setRule(previousName);
+        }
+        this.syncRuleControls();
+    }
+
+    private saveSession(): void {
+        const state = this.gameEngine.exportState();
+        // A seeded soup is rebuilt from its seed on load, so its generations are recomputed
+        // instead of stored. Jumped sessions keep theirs, as recomputing them could take long.
+        const compact = state.seed !== undefined && this.gameEngine.getGenerationOffset() === 0;
+        const saved = compact ? { ...state, generations: [] } : state;
+        this.downloadFile(JSON.stringify(saved, null, 2), `gameoflife3d_session_${Date.now()}.json`, 'application/json');
+    }
+
+    private downloadFile(content: string, filename: string, type: string): void {
+        const blob = new Blob([content], { type });
+        const url = URL.createObjectURL(blob);
+
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = filename;
+        a.click();
+
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Downloads the generation numbered in the export input, or the last
+     * displayed one when it is empty, in the chosen file format.
+     */
+    private exportGeneration(): void {
+        if (this.isVolumeMode()) {
+            this.showToast('Export covers the 2D generations', true);
+            return;
+        }
+
+        const offset = this.gameEngine.getGenerationOffset();
+        const last = offset + this.gameEngine.getGenerationCount() - 1;
+        const text = (this.elements['export-generation'] as HTMLInputElement | undefined)?.value.trim() ?? '';
+        const number = text === '' ? offset + this.displayEnd : Number(text);
+        const generation = Number.isSafeInteger(number) ? this.gameEngine.getGeneration(number - offset) : null;
+        if (!generation) {
+            this.showToast(`Generation ${text || number} is not computed; choose ${offset}-${last}`, true);
+            return;
+        }
+
+        const selected = (this.elements['export-format'] as HTMLSelectElement | undefined)?.value ?? '';
+        const format = isPatternFormat(selected) ? selected : 'rle';
+        let content: string | null;
+        try {
+            content = this.generationToFile(generation, format);
+        } catch (error) {
+            this.showToast(error instanceof Error ? error.message : 'Export failed', true);
+            return;
+        }
+        if (content === null) {
+            this.showToast(`Generation ${number} has no cells to export`, true);
+            return;
+        }
+        this.downloadFile(content, `gameoflife3d_gen${number}.${PATTERN_FORMAT_EXTENSIONS[format]}`, 'text/plain');
+    }
+
+    /**
+     * The cells of a generation in a pattern file format, cropped to their
+     * bounding box, with the active rule and the generation's position.
+     * Returns null for an empty generation.
+     */
+    private generationToFile(generation: Generation, format: PatternFormat): string | null {
+        let minX = Infinity;
+        let maxX = -Infinity;
+        let minY = Infinity;
+        let maxY = -Infinity;
+        const include = (x: number, y: number) => {
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+        };
+        generation.forEachLiveCell(include);
+        generation.forEachDyingCell(include);
+        if (minX > maxX) {
+            return null;
+        }
+
+        const info = this.currentPatternName ? this.patternLoader.getBuiltInPatternInfo(this.currentPatternName) : null;
+        const options: PatternWriteOptions = {
+            rule: this.gameEngine.getRuleString(),
+            name: info?.name,
+            author: info?.author,
+            comments: [`Generation ${generation.index}, exported from GameOfLife3D`],
+            origin: { x: minY, y: minX },
+            generation: generation.index
+        };
+
+        // Macrocell is written from the live cells, so large layouts skip the row copy
+        if (format === 'macrocell') {
+            const cells: number[] = [];
+            generation.forEachLiveCell((x, y) => {
+                cells.push(y - minY, x - minX);
+            });
+            return this.patternLoader.cellsToMacrocell(cells, options);
+        }
+
+        if ((maxX - minX + 1) * (maxY - minY + 1) > MAX_PATTERN_CELLS) {
+            throw new Error(`Generation ${generation.index} spreads over too large an area to export`);
+        }
+
+        // Rows of the RLE run along the engine's x axis
+        const states = Array.from({ length: maxX - minX + 1 }, () => new Uint8Array(maxY - minY + 1));
+        generation.forEachLiveCell((x, y) => {
+            states[x - minX][y - minY] = 1;
+        });
+        generation.forEachDyingCell((x, y, state) => {
+            states[x - minX][y - minY] = state;
+        });
+
+        return this.patternLoader.writePattern(states, format, options);
     }
 
     private loadSessionFile(files: FileList | null): void {
@@ -550,54 +1342,43 @@ export class UIControls {
 
         reader.onload = (e) => {
             const content = e.target?.result as string;
+            let before: HistorySnapshot | null = null;
             try {
                 const state = JSON.parse(content);
+                before = this.captureHistory();
                 this.currentPatternName = null; // Session may contain custom pattern
                 this.gameEngine.importState(state);
 
-                (this.elements['grid-size'] as HTMLSelectElement).value = state.gridSize.toString();
-                this.renderer.setGridSize(state.gridSize);
+                this.syncGridSizeInputs();
+                this.renderer.setGridSize(this.gameEngine.getGridWidth(), this.gameEngine.getGridHeight());
 
-                // Restore toroidal toggle state
-                const toroidalToggle = this.elements['toroidal-toggle'] as HTMLInputElement | undefined;
-                if (toroidalToggle) {
-                    toroidalToggle.checked = state.toroidal ?? false;
-                }
+                // Restore boundary mode and infinite plane toggle state
+                this.syncBoundaryControls();
 
                 // Restore rule preset state
-                const rulePreset = this.elements['rule-preset'] as HTMLSelectElement | undefined;
-                const customContainer = this.elements['custom-rule-container'];
-                if (rulePreset) {
-                    const ruleName = state.ruleName ?? 'conway';
-                    if (ruleName === 'custom') {
-                        rulePreset.value = 'custom';
-                        if (customContainer) {
-                            customContainer.style.display = 'block';
-                        }
-                        // Populate custom rule inputs
-                        const birthInput = this.elements['custom-birth'] as HTMLInputElement | undefined;
-                        const survivalInput = this.elements['custom-survival'] as HTMLInputElement | undefined;
-                        if (birthInput && state.birthRule) {
-                            birthInput.value = state.birthRule.join('');
-                        }
-                        if (survivalInput && state.survivalRule) {
-                            survivalInput.value = state.survivalRule.join('');
-                        }
-                    } else {
-                        rulePreset.value = ruleName;
-                        if (customContainer) {
-                            customContainer.style.display = 'none';
-                        }
-                    }
-                }
+                this.syncRuleControls();
 
+                this.syncSoupInputs();
+                this.syncSceneInput();
                 this.syncDisplayRange();
                 this.timelineScrubber?.setTotalGenerations(this.gameEngine.getGenerationCount());
                 this.timelineScrubber?.setRange(this.getDisplayStart(), this.getDisplayEnd());
                 this.renderCurrentView();
                 this.updateUI();
+                this.history.record('Load session', before);
+
+                // Compact soup sessions store only the generation count
+                const savedCount = (state.currentGeneration ?? 0) + 1;
+                const restored = this.gameEngine.getGenerationCount();
+                if (restored > 0 && restored < savedCount) {
+                    void this.computeGenerations(savedCount);
+                }
             } catch (error) {
                 console.error('Error loading session:', error);
+                // importState may have stopped partway, so put back the session from before
+                if (before) {
+                    this.restoreHistory(before);
+                }
                 alert('Error loading session file. Please check the format.');
             }
         };
@@ -607,7 +1388,10 @@ export class UIControls {
 
     private loadBuiltInPattern(patternName: string): void {
         const pattern = this.patternLoader.getBuiltInPattern(patternName);
-        if (pattern) {
+        if (pattern && this.isVolumeMode()) {
+            this.loadVolumePattern(pattern);
+        } else if (pattern) {
+            this.history.record('Load pattern', this.captureHistory());
             this.currentPatternName = patternName;
             this.gameEngine.initializeFromPattern(pattern);
             this.syncDisplayRange();
@@ -618,6 +1402,117 @@ export class UIControls {
         }
     }
 
+    /**
+     * Seeds the volume with a 2D pattern laid flat in its middle layers.
+     */
+    private loadVolumePattern(pattern: boolean[][]): void {
+        this.voxelEngine.initializeFromPattern(pattern);
+        this.restartVolume();
+    }
+
+    /**
+     * Builds a random soup from the soup inputs. An empty seed input, or
+     * `newSeed`, picks a fresh seed and shows it so the soup can be reproduced.
+     */
+    private onGenerateSoup(newSeed: boolean): void {
+        const seedInput = this.elements['soup-seed'] as HTMLInputElement | undefined;
+        const seedText = seedInput?.value.trim() ?? '';
+        let seed = createSeed();
+        if (!newSeed && seedText !== '') {
+            seed = Number(seedText);
+            if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+                this.showToast('Seed must be a whole number from 0 to 4294967295', true);
+                return;
+            }
+        }
+
+        const size = parseInt((this.elements['soup-size'] as HTMLInputElement | undefined)?.value ?? '', 10);
+        const density = parseInt((this.elements['soup-density'] as HTMLInputElement | undefined)?.value ?? '', 10);
+        const symmetry = (this.elements['soup-symmetry'] as HTMLSelectElement | undefined)?.value ?? '';
+        const options: SoupOptions = {
+            size: isNaN(size) ? DEFAULT_SOUP.size : Math.max(1, Math.min(400, size)),
+            density: isNaN(density) ? DEFAULT_SOUP.density : Math.max(1, Math.min(100, density)) / 100,
+            symmetry: isSoupSymmetry(symmetry) ? symmetry : DEFAULT_SOUP.symmetry
+        };
+
+        if (this.isVolumeMode()) {
+            this.loadVolumePattern(generateSoup(seed, options));
+            if (seedInput) {
+                seedInput.value = seed.toString();
+            }
+            return;
+        }
+
+        this.history.record('Soup', this.captureHistory());
+        this.currentPatternName = null;
+        this.gameEngine.initializeSoup(seed, options);
+        this.syncSoupInputs();
+        this.syncDisplayRange();
+        this.renderCurrentView();
+        this.updateUI();
+    }
+
+    /**
+     * Fills the soup inputs from the engine's current soup, if generation 0 is one.
+     */
+    public syncSoupInputs(): void {
+        const seed = this.gameEngine.getSeed();
+        const options = this.gameEngine.getSoupOptions();
+        if (seed === null || !options) {
+            return;
+        }
+
+        const seedInput = this.elements['soup-seed'] as HTMLInputElement | undefined;
+        if (seedInput) {
+            seedInput.value = seed.toString();
+        }
+        const sizeInput = this.elements['soup-size'] as HTMLInputElement | undefined;
+        if (sizeInput) {
+            sizeInput.value = options.size.toString();
+        }
+        const densityInput = this.elements['soup-density'] as HTMLInputElement | undefined;
+        if (densityInput) {
+            densityInput.value = Math.round(options.density * 100).toString();
+        }
+        const symmetrySelect = this.elements['soup-symmetry'] as HTMLSelectElement | undefined;
+        if (symmetrySelect) {
+            symmetrySelect.value = options.symmetry;
+        }
+    }
+
+    /**
+     * Replaces generation 0 with the scene described in the scene textarea
+     * and recomputes as many generations as were shown.
+     */
+    private onBuildScene(): void {
+        if (this.isVolumeMode()) {
+            this.showToast('Scenes are built on the 2D grid', true);
+            return;
+        }
+
+        const before = this.captureHistory();
+        const text = (this.elements['scene-description'] as HTMLTextAreaElement | undefined)?.value ?? '';
+        try {
+            this.gameEngine.initializeScene(parseScene(JSON.parse(text)), this.patternLoader);
+        } catch (error) {
+            this.showToast(error instanceof Error ? error.message : 'Invalid scene', true);
+            return;
+        }
+        this.history.record('Scene', before);
+        this.onInitialGenerationEdited(before.generationCount);
+    }
+
+    /**
+     * Shows the engine's scene in the scene textarea, if generation 0 is one.
+     */
+    public syncSceneInput(): void {
+        const scene = this.gameEngine.getScene();
+        const textarea = this.elements['scene-description'] as HTMLTextAreaElement | undefined;
+        if (scene && textarea) {
+            textarea.value = JSON.stringify(scene, null, 2);
+        }
+    }
+
     private resetCamera(): void {
         this.cameraController.reset();
     }
@@ -628,6 +1523,8 @@ export class UIControls {
             this.stopAnimation();
         }
 
+        this.history.record('Reset', this.captureHistory());
+
         // Clear all generations and reset the game engine
         this.gameEngine.clear();
 
@@ -642,12 +1539,15 @@ export class UIControls {
             customContainer.style.display = 'none';
         }
 
-        // Reset toroidal to off
-        this.gameEngine.setToroidal(false);
-        const toroidalToggle = this.elements['toroidal-toggle'] as HTMLInputElement | undefined;
-        if (toroidalToggle) {
-            toroidalToggle.checked = false;
-        }
+        // Back to the 2D spacetime view with the default 3D rule
+        this.voxelEngine.clear();
+        this.voxelEngine.setRule('4555');
+        this.setSimulationMode('spacetime');
+
+        // Reset to a plain bounded grid
+        this.gameEngine.setBoundary('plane');
+        this.gameEngine.setInfinite(false);
+        this.syncBoundaryControls();
 
         // Load default pattern (r-pentomino) to create generation 0
         this.currentPatternName = 'r-pentomino';
@@ -664,17 +1564,141 @@ export class UIControls {
         this.updateUI();
     }
 
+    /**
+     * Shows the engine's rule in the rule preset select and custom rule inputs.
+     */
+    private syncRuleControls(): void {
+        const rulePreset = this.elements['rule-preset'] as HTMLSelectElement | undefined;
+        const customContainer = this.elements['custom-rule-container'];
+        if (!rulePreset) return;
+
+        const ruleName = this.gameEngine.getCurrentRule();
+        rulePreset.value = ruleName;
+        if (customContainer) {
+            customContainer.style.display = ruleName === 'custom' ? 'block' : 'none';
+        }
+        if (ruleName === 'custom') {
+            this.syncCustomRuleInputs();
+        }
+    }
+
+    /**
+     * Ctrl+Z undoes the last command and Ctrl+Shift+Z redoes it (Cmd on macOS).
+     */
+    private onKeyDown(event: KeyboardEvent): void {
+        // Leave text fields their own undo
+        const target = event.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') {
+            return;
+        }
+        if (!(event.ctrlKey || event.metaKey) || event.code !== 'KeyZ') return;
+
+        event.preventDefault();
+        if (event.shiftKey) {
+            this.redo();
+        } else {
+            this.undo();
+        }
+    }
+
+    private undo(): void {
+        if (this.isVolumeMode()) return;
+        const entry = this.history.undo(this.captureHistory());
+        if (!entry) {
+            this.showToast('Nothing to undo');
+            return;
+        }
+        this.restoreHistory(entry.snapshot);
+        this.showToast(`Undo: ${entry.label}`);
+    }
+
+    private redo(): void {
+        if (this.isVolumeMode()) return;
+        const entry = this.history.redo(this.captureHistory());
+        if (!entry) {
+            this.showToast('Nothing to redo');
+            return;
+        }
+        this.restoreHistory(entry.snapshot);
+        this.showToast(`Redo: ${entry.label}`);
+    }
+
+    /**
+     * The current state for the history. Only the first stored generation is
+     * kept, so each entry costs about one generation of memory.
+     */
+    private captureHistory(): HistorySnapshot {
+        const state = this.gameEngine.exportState();
+        return {
+            state: { ...state, generations: state.generations.slice(0, 1), currentGeneration: 0 },
+            generationCount: Math.max(this.gameEngine.getGenerationCount(), this.computeTarget),
+            displayStart: this.displayStart,
+            displayEnd: this.displayEnd,
+            patternName: this.currentPatternName
+        };
+    }
+
+    /**
+     * Puts the engine and controls back to a snapshot, then recomputes its
+     * generations in the worker and shows its display range again.
+     */
+    private restoreHistory(snapshot: HistorySnapshot): void {
+        this.stopAnimation();
+        this.strokeHistory = null;
+        this.gameEngine.importState(snapshot.state);
+        this.currentPatternName = snapshot.patternName;
+
+        this.syncGridSizeInputs();
+        this.renderer.setGridSize(this.gameEngine.getGridWidth(), this.gameEngine.getGridHeight());
+        this.syncBoundaryControls();
+        this.syncRuleControls();
+        this.syncSoupInputs();
+        this.syncSceneInput();
+        this.syncDisplayRange();
+        this.renderCurrentView();
+        this.updateUI();
+
+        const showRange = () => {
+            this.setDisplayRange(snapshot.displayStart, snapshot.displayEnd);
+            this.timelineScrubber?.setRange(this.displayStart, this.displayEnd);
+        };
+        if (snapshot.generationCount > 1) {
+            void this.computeGenerations(snapshot.generationCount).then(finished => {
+                if (finished) {
+                    showRange();
+                }
+            });
+        } else {
+            showRange();
+        }
+    }
+
     syncDisplayRange(): void {
+        if (this.isVolumeMode()) {
+            this.timelineScrubber?.setGenerationOffset(0);
+            this.showVolumeGeneration(this.voxelEngine.getGenerationCount() - 1);
+            return;
+        }
+
         const maxGen = Math.max(0, this.gameEngine.getGenerationCount() - 1);
 
         this.displayStart = 0;
         this.displayEnd = maxGen;
 
+        this.timelineScrubber?.setGenerationOffset(this.gameEngine.getGenerationOffset());
         this.timelineScrubber?.setTotalGenerations(this.gameEngine.getGenerationCount());
         this.timelineScrubber?.setRange(this.getDisplayStart(), this.getDisplayEnd());
     }
 
     private renderCurrentView(): void {
+        if (this.isVolumeMode()) {
+            const volume = this.voxelEngine.getGeneration(this.displayEnd);
+            this.cachedTotalCells = volume?.population ?? 0;
+            this.renderer.renderVolume(volume, this.voxelEngine.getWidth(), this.voxelEngine.getHeight(), this.voxelEngine.getDepth());
+            this.populationGraph.render(this.voxelEngine.getGenerations(), { min: this.displayEnd, max: this.displayEnd });
+            return;
+        }
+
         const start = this.displayStart;
         const end = this.displayEnd;
         const generations = this.gameEngine.getGenerations();
@@ -683,16 +1707,24 @@ export class UIControls {
         let totalCells = 0;
         for (let i = start; i <= end && i < generations.length; i++) {
             if (generations[i]) {
-                totalCells += generations[i].liveCells.length;
+                totalCells += generations[i].population;
             }
         }
         this.cachedTotalCells = totalCells;
 
+        this.renderer.setStateCount(this.gameEngine.getStateCount());
         this.renderer.renderGenerations(generations, start, end);
+        this.cellEditor.syncPlacement();
         this.populationGraph.render(generations, { min: start, max: end });
     }
 
     private setDisplayRange(start: number, end: number): void {
+        if (this.isVolumeMode()) {
+            // Only one volume is shown at a time: follow whichever handle moved
+            this.showVolumeGeneration(end !== this.displayEnd ? end : start);
+            return;
+        }
+
         const maxGen = Math.max(0, this.gameEngine.getGenerationCount() - 1);
         const clampedStart = Math.max(0, Math.min(maxGen, start));
         const clampedEnd = Math.max(0, Math.min(maxGen, end));
@@ -720,20 +1752,313 @@ export class UIControls {
     }
 
     private updateUI(): void {
-        const start = this.displayStart;
-        const end = this.displayEnd;
+        const offset = this.gameEngine.getGenerationOffset();
+        const start = offset + this.displayStart;
+        const end = offset + this.displayEnd;
 
         if (this.elements['status-generation']) {
-            this.elements['status-generation'].textContent = `Gen: ${start}-${end}`;
+            this.elements['status-generation'].textContent = this.isVolumeMode() ? `Gen: ${this.displayEnd}` : `Gen: ${start}-${end}`;
         }
 
         if (this.elements['status-rule']) {
-            this.elements['status-rule'].textContent = `Rule: ${this.gameEngine.getRuleString()}`;
+            const rule = this.isVolumeMode() ? `${this.voxelEngine.getRuleString()} (3D)` : this.gameEngine.getRuleString();
+            this.elements['status-rule'].textContent = `Rule: ${rule}`;
+        }
+
+        const badge = this.elements['status-pattern'];
+        if (badge) {
+            const classification = this.isVolumeMode() ? null : this.gameEngine.getClassification();
+            badge.hidden = classification === null;
+            badge.textContent = classification ? describeClassification(classification) : '';
+            badge.className = classification ? `pattern-${classification.kind}` : '';
+            badge.title = classification
+                ? `Cycle from generation ${classification.cycleStart}, confirmed at generation ${classification.confirmedAt}`
+                : '';
         }
 
         if (this.elements['status-cells']) {
             this.elements['status-cells'].textContent = `Cells: ${this.cachedTotalCells}`;
         }
+
+        this.updateCensus();
+        this.updateLineage();
+    }
+
+    private onPaint(cells: Int32Array, alive: boolean): void {
+        if (this.isVolumeMode()) return;
+
+        // Keep as many generations as were shown, or were being computed, before the edit
+        const count = Math.max(this.gameEngine.getGenerationCount(), this.computeTarget);
+        if (this.gameEngine.setCells(cells, alive) > 0) {
+            // The whole stroke is undone at once
+            if (this.strokeHistory) {
+                this.history.record('Draw', this.strokeHistory);
+                this.strokeHistory = null;
+            }
+            this.onInitialGenerationEdited(count);
+        }
+    }
+
+    private onSelectionChange(selection: CellSelection | null): void {
+        const copyButton = this.elements['copy-selection-btn'] as HTMLButtonElement | undefined;
+        if (copyButton) {
+            copyButton.disabled = selection === null;
+        }
+        const summary = this.elements['selection-summary'];
+        if (summary) {
+            const generation = selection ? this.gameEngine.getGenerationOffset() + selection.layer : 0;
+            summary.textContent = selection
+                ? `Selection: ${selection.width}x${selection.height} at generation ${generation}`
+                : '';
+        }
+    }
+
+    /**
+     * Copies the selected rectangle of its generation to the clipboard as RLE.
+     */
+    private async copySelection(): Promise<void> {
+        const selection = this.cellEditor.getSelection();
+        const generation = selection ? this.gameEngine.getGeneration(selection.layer) : null;
+        if (!selection || !generation) {
+            this.showToast('Select cells with the Select tool first', true);
+            return;
+        }
+
+        const region = generation.getRegion(selection.minX, selection.minY, selection.width, selection.height);
+        const rle = this.patternLoader.patternToRLE(region, { rule: this.gameEngine.getRuleString() });
+        if (await URLHandler.copyToClipboard(rle)) {
+            this.showToast('Selection copied as RLE');
+        } else {
+            this.showToast('Failed to copy - check console', true);
+            console.log('Selection RLE:', rle);
+        }
+    }
+
+    /**
+     * Reads an RLE pattern from the clipboard, or asks for one when the
+     * clipboard cannot be read, and floats it as a stamp.
+     */
+    private async pasteStamp(): Promise<void> {
+        if (this.isVolumeMode()) return;
+
+        let text: string | null = null;
+        try {
+            text = await navigator.clipboard.readText();
+        } catch (error) {
+            console.warn('Clipboard read failed:', error);
+        }
+        if (!text?.trim()) {
+            text = prompt('Paste an RLE pattern:');
+        }
+        if (!text?.trim()) return;
+
+        try {
+            const pattern = this.patternLoader.parseRLE(text);
+            if (!this.patternLoader.validatePattern(pattern)) {
+                throw new Error('Empty pattern');
+            }
+            this.cellEditor.setStamp(pattern);
+            this.showToast('Click generation 0 to stamp the pattern');
+        } catch (error) {
+            console.error('Error parsing pasted RLE:', error);
+            const detail = error instanceof PatternParseError ? ` (${error.message})` : '';
+            this.showToast(`The clipboard does not hold a valid RLE pattern${detail}`, true);
+        }
+    }
+
+    private onStamp(pattern: boolean[][], x: number, y: number): void {
+        if (this.isVolumeMode()) return;
+
+        const before = this.captureHistory();
+        if (this.gameEngine.stampPattern(pattern, x, y) > 0) {
+            this.history.record('Stamp', before);
+            this.onInitialGenerationEdited(before.generationCount);
+        }
+    }
+
+    private onStampChange(active: boolean): void {
+        ['stamp-rotate-btn', 'stamp-flip-h-btn', 'stamp-flip-v-btn', 'stamp-cancel-btn'].forEach(id => {
+            const button = this.elements[id] as HTMLButtonElement | undefined;
+            if (button) {
+                button.disabled = !active;
+            }
+        });
+    }
+
+    private onDrawOptionsChange(): void {
+        const tool = (this.elements['draw-tool'] as HTMLSelectElement | undefined)?.value ?? '';
+        const symmetry = (this.elements['draw-symmetry'] as HTMLSelectElement | undefined)?.value ?? '';
+        const current = this.cellEditor.getDrawOptions();
+
+        const brushInput = this.elements['brush-size'] as HTMLInputElement | undefined;
+        const brushSize = Math.max(1, Math.min(15, parseInt(brushInput?.value ?? '', 10) || current.brushSize));
+        if (brushInput) {
+            brushInput.value = brushSize.toString();
+        }
+        const densityInput = this.elements['spray-density'] as HTMLInputElement | undefined;
+        const density = Math.max(1, Math.min(100, parseInt(densityInput?.value ?? '', 10) || Math.round(current.sprayDensity * 100)));
+        if (densityInput) {
+            densityInput.value = density.toString();
+        }
+
+        this.cellEditor.setDrawOptions({
+            tool: isDrawTool(tool) ? tool : current.tool,
+            symmetry: isEditSymmetry(symmetry) ? symmetry : current.symmetry,
+            brushSize,
+            sprayDensity: density / 100,
+            filledShapes: (this.elements['filled-shapes'] as HTMLInputElement | undefined)?.checked ?? false
+        });
+    }
+
+    /**
+     * Shows an edited generation 0 and recomputes the generations after it.
+     * The pattern is no longer a built-in one, so shared links carry it as RLE.
+     */
+    private onInitialGenerationEdited(count: number): void {
+        this.currentPatternName = null;
+        this.syncDisplayRange();
+        this.renderCurrentView();
+        this.updateUI();
+        if (count > 1) {
+            void this.computeGenerations(count);
+        }
+    }
+
+    private onEditModeChange(active: boolean): void {
+        if (active && this.isVolumeMode()) {
+            this.cellEditor.setEditMode(false);
+            return;
+        }
+
+        // Left drag and single-finger drag paint cells while editing
+        this.cameraController.setPrimaryOrbit(!active);
+
+        const button = this.elements['edit-mode-btn'];
+        if (button) {
+            button.classList.toggle('active', active);
+            button.textContent = active ? 'Exit Edit Mode' : 'Edit Cells';
+        }
+        if (this.elements['status-edit']) {
+            this.elements['status-edit'].hidden = !active;
+        }
+    }
+
+    private onCanvasClick(clientX: number, clientY: number): void {
+        const toggle = this.elements['lineage-toggle'] as HTMLInputElement | undefined;
+        if (!toggle?.checked || this.isVolumeMode() || this.cellEditor.isActive()) return;
+
+        const cell = this.renderer.pickCell(clientX, clientY);
+        const generation = cell ? this.gameEngine.getGeneration(cell.layer) : null;
+        if (!cell || !generation) {
+            this.clearLineage();
+            return;
+        }
+        this.traceLineage(cell, generation);
+    }
+
+    private traceLineage(cell: PickedCell, generation: Generation): void {
+        const start = this.displayStart;
+        const end = this.displayEnd;
+        this.lineageTarget = { cell, generation, start, end };
+
+        const lineage = this.gameEngine.getLineage(cell.layer, cell.x, cell.y, start, end);
+        const layers: HighlightLayer[] = [
+            { layer: cell.layer, cells: Int32Array.of(cell.x, cell.y), kind: 'selected' },
+            ...lineage.past.map(({ position, coords }) => ({ layer: position, cells: coords, kind: 'past' as const })),
+            ...lineage.future.map(({ position, coords }) => ({ layer: position, cells: coords, kind: 'future' as const }))
+        ];
+        this.renderer.setHighlight('lineage', layers);
+
+        const count = (layers: typeof lineage.past) => layers.reduce((sum, layer) => sum + (layer.coords.length >> 1), 0);
+        const summary = this.elements['lineage-summary'];
+        if (summary) {
+            summary.textContent = `Cell (${cell.x}, ${cell.y}) in generation ${generation.index}: ` +
+                `${count(lineage.past)} cells over ${lineage.past.length} generations before, ` +
+                `${count(lineage.future)} cells over ${lineage.future.length} generations after`;
+        }
+    }
+
+    /**
+     * Retraces the lineage when the display range changes and drops it once
+     * its generation is no longer in the engine.
+     */
+    private updateLineage(): void {
+        const target = this.lineageTarget;
+        if (!target) return;
+
+        if (this.isVolumeMode() || this.gameEngine.getGeneration(target.cell.layer) !== target.generation) {
+            this.clearLineage();
+        } else if (target.start !== this.displayStart || target.end !== this.displayEnd) {
+            this.traceLineage(target.cell, target.generation);
+        }
+    }
+
+    private clearLineage(): void {
+        this.lineageTarget = null;
+        this.renderer.setHighlight('lineage', null);
+        if (this.elements['lineage-summary']) {
+            this.elements['lineage-summary'].textContent = '';
+        }
+    }
+
+    /**
+     * Recounts the objects in the last displayed generation when it has changed
+     * and the census is switched on. Volume mode has no census.
+     */
+    private updateCensus(): void {
+        const toggle = this.elements['census-toggle'] as HTMLInputElement | undefined;
+        const enabled = (toggle?.checked ?? false) && !this.isVolumeMode();
+        const generation = enabled ? this.gameEngine.getGeneration(this.displayEnd) : null;
+        if (generation === this.censusGeneration) return;
+
+        this.censusGeneration = generation;
+        this.censusEntries = generation ? this.census.take(generation) : [];
+        if (!this.censusEntries.some(entry => entry.name === this.censusSelection)) {
+            this.censusSelection = null;
+        }
+        this.renderCensus();
+        this.highlightCensusSelection();
+    }
+
+    private renderCensus(): void {
+        const summary = this.elements['census-summary'];
+        const list = this.elements['census-list'];
+        if (!summary || !list) return;
+
+        list.replaceChildren();
+        if (!this.censusGeneration) {
+            summary.textContent = '';
+            return;
+        }
+
+        const total = this.censusEntries.reduce((sum, entry) => sum + entry.count, 0);
+        summary.textContent = `${total} object${total === 1 ? '' : 's'} in generation ${this.censusGeneration.index}`;
+
+        for (const entry of this.censusEntries) {
+            const item = document.createElement('button');
+            item.className = 'census-item';
+            item.classList.toggle('selected', entry.name === this.censusSelection);
+            item.title = 'Highlight these objects in the view';
+
+            const name = document.createElement('span');
+            name.textContent = entry.name;
+            const count = document.createElement('span');
+            count.textContent = entry.count.toString();
+            item.append(name, count);
+
+            item.addEventListener('click', () => {
+                this.censusSelection = entry.name === this.censusSelection ? null : entry.name;
+                this.renderCensus();
+                this.highlightCensusSelection();
+            });
+            list.appendChild(item);
+        }
+    }
+
+    private highlightCensusSelection(): void {
+        const entry = this.censusEntries.find(candidate => candidate.name === this.censusSelection);
+        const layers = entry?.islands.map(cells => ({ layer: this.displayEnd, cells, kind: 'census' as const }));
+        this.renderer.setHighlight('census', layers ?? null);
     }
 
     updateFPS(): void {
@@ -753,7 +2078,8 @@ export class UIControls {
 
     getState(): UIState {
         return {
-            gridSize: parseInt((this.elements['grid-size'] as HTMLSelectElement)?.value || '50'),
+            gridWidth: this.gameEngine.getGridWidth(),
+            gridHeight: this.gameEngine.getGridHeight(),
             displayStart: this.displayStart,
             displayEnd: this.displayEnd,
             cellPadding: parseInt((this.elements['cell-padding'] as HTMLInputElement)?.value || '20'),
@@ -770,7 +2096,13 @@ export class UIControls {
     }
 
     private async shareConfiguration(): Promise<void> {
-        const config = this.getCurrentURLConfig();
+        let config: URLConfig;
+        try {
+            config = this.getCurrentURLConfig();
+        } catch (error) {
+            this.showToast(error instanceof Error ? error.message : 'Sharing failed', true);
+            return;
+        }
         const url = URLHandler.generateURL(config);
 
         if (URLHandler.isURLTooLong(url)) {
@@ -793,32 +2125,44 @@ export class UIControls {
         const colorCycling = (this.elements['face-color-cycling'] as HTMLInputElement)?.checked ?? true;
 
         const config: URLConfig = {
-            grid: this.gameEngine.getGridSize(),
+            grid: { width: this.gameEngine.getGridWidth(), height: this.gameEngine.getGridHeight() },
             gens: this.gameEngine.getGenerationCount(),
-            toroidal: this.gameEngine.isToroidal(),
+            boundary: this.gameEngine.getBoundary(),
+            infinite: this.gameEngine.isInfinite(),
+            jump: this.gameEngine.getGenerationOffset(),
             padding: padding,
             colors: colorCycling,
             range: { min: this.displayStart, max: this.displayEnd }
         };
 
-        // Use pattern name if available, otherwise export as RLE
-        if (this.currentPatternName) {
+        // A seeded soup is shared as its seed and a scene as its placements; otherwise
+        // use the pattern name if available, or RLE
+        const seed = this.gameEngine.getSeed();
+        const scene = this.gameEngine.getScene();
+        if (seed !== null) {
+            config.seed = seed;
+            config.soup = this.gameEngine.getSoupOptions() ?? undefined;
+        } else if (scene) {
+            // RLE is rewritten without comments, which could hold the scene separator
+            config.scene = scene.map(placement => this.patternLoader.getBuiltInPattern(placement.pattern)
+                ? placement
+                : { ...placement, pattern: this.patternLoader.patternToRLE(this.patternLoader.parseRLE(placement.pattern)) });
+        } else if (this.currentPatternName) {
             config.pattern = this.currentPatternName;
         } else {
             // Export the initial generation as RLE
-            const gen0 = this.gameEngine.getGeneration(0);
+            const gen0 = this.gameEngine.getInitialGeneration();
             if (gen0) {
-                config.rle = this.patternLoader.patternToRLE(gen0.cells);
+                config.rle = this.initialGenerationToRLE(gen0);
             }
         }
 
         // Get rule
         const ruleName = this.gameEngine.getCurrentRule();
         if (ruleName === 'custom') {
-            // Export as B/S notation
-            const birth = this.gameEngine.getBirthRule().join('');
-            const survival = this.gameEngine.getSurvivalRule().join('');
-            config.rule = `B${birth}S${survival}`;
+            // Export the rulestring: B/S notation without slashes (Hensel letters, C for
+            // Generations rules, V/H neighborhoods), or R,C,M,S,B,N for Larger than Life
+            config.rule = this.gameEngine.getRuleString().replace(/\//g, '');
         } else {
             config.rule = ruleName;
         }
@@ -826,6 +2170,30 @@ export class UIControls {
         return config;
     }
 
+    /**
+     * Generation 0 as RLE over the grid, padded evenly on each side to reach
+     * cells beyond it on the infinite plane, so that centering the pattern on
+     * load puts every cell back in place. Throws when that area is too large.
+     */
+    private initialGenerationToRLE(generation: Generation): string {
+        const gridWidth = this.gameEngine.getGridWidth();
+        const gridHeight = this.gameEngine.getGridHeight();
+        const bounds = generation.getBounds();
+        const padX = bounds ? Math.max(0, -bounds.minX, bounds.maxX - gridWidth + 1) : 0;
+        const padY = bounds ? Math.max(0, -bounds.minY, bounds.maxY - gridHeight + 1) : 0;
+        const width = gridWidth + 2 * padX;
+        const height = gridHeight + 2 * padY;
+        if (width * height > MAX_SHARED_AREA) {
+            throw new Error('Generation 0 spreads over too large an area to share as a link');
+        }
+
+        const pattern = Array.from({ length: width }, () => new Array<boolean>(height).fill(false));
+        generation.forEachLiveCell((x, y) => {
+            pattern[x + padX][y + padY] = true;
+        });
+        return this.patternLoader.patternToRLE(pattern);
+    }
+
     private showToast(message: string, isError: boolean = false): void {
         // Remove any existing toast
         const existingToast = document.querySelector('.toast');
@@ -846,6 +2214,8 @@ export class UIControls {
 
     dispose(): void {
         this.isPlaying = false;
+        document.removeEventListener('keydown', this.boundOnKeyDown);
         this.timelineScrubber?.destroy();
+        this.cellEditor.dispose();
     }
 }
@@ -1,10 +1,27 @@
+import { BoundaryMode, isBoundaryMode } from './Boundary.js';
+import { decodeScene, encodeScene, ScenePlacement } from './Scene.js';
+import { isSoupSymmetry, SoupOptions } from './Soup.js';
+
+// The toroidal parameter predates boundary modes, so plane and torus keep their old values
+const LEGACY_BOUNDARY_VALUES: Partial<Record<BoundaryMode, string>> = {
+    plane: 'false',
+    torus: 'true'
+};
+
 export interface URLConfig {
     pattern?: string;
     rle?: string;
-    grid?: number;
+    /** Random soup seed; replaces pattern and rle when present */
+    seed?: number;
+    soup?: SoupOptions;
+    /** Several placed patterns; replaces pattern and rle when present */
+    scene?: ScenePlacement[];
+    grid?: { width: number; height: number };
     rule?: string;
     gens?: number;
-    toroidal?: boolean;
+    boundary?: BoundaryMode;
+    infinite?: boolean;
+    jump?: number;
     padding?: number;
     colors?: boolean;
     range?: { min: number; max: number };
@@ -39,11 +56,43 @@ export class URLHandler {
             }
         }
 
-        // Grid size
+        // Random soup: seed plus "size,density%,symmetry", e.g. soup=16,50,D8
+        if (params.has('seed')) {
+            const seed = Number(params.get('seed'));
+            if (Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff) {
+                config.seed = seed;
+            }
+        }
+        if (params.has('soup')) {
+            const match = params.get('soup')!.match(/^(\d+),(\d+),(C1|C2|C4|D8)$/i);
+            const symmetry = match?.[3].toUpperCase() ?? '';
+            if (match && isSoupSymmetry(symmetry)) {
+                const size = parseInt(match[1], 10);
+                const density = parseInt(match[2], 10);
+                if (size >= 1 && size <= 400 && density >= 0 && density <= 100) {
+                    config.soup = { size, density: density / 100, symmetry };
+                }
+            }
+        }
+
+        // Scene: placements "x,y,rotation,flip,phase,pattern" separated by semicolons
+        if (params.has('scene')) {
+            try {
+                config.scene = decodeScene(params.get('scene')!);
+            } catch (error) {
+                console.warn('Invalid scene in URL:', error);
+            }
+        }
+
+        // Grid size: "N" for a square grid or "WxH"
         if (params.has('grid')) {
-            const grid = parseInt(params.get('grid')!, 10);
-            if (!isNaN(grid) && grid >= 25 && grid <= 200) {
-                config.grid = grid;
+            const match = params.get('grid')!.match(/^(\d+)(?:x(\d+))?$/i);
+            if (match) {
+                const width = parseInt(match[1], 10);
+                const height = match[2] ? parseInt(match[2], 10) : width;
+                if (width >= 10 && width <= 400 && height >= 10 && height <= 400) {
+                    config.grid = { width, height };
+                }
             }
         }
 
@@ -55,14 +104,32 @@ export class URLHandler {
         // Generations
         if (params.has('gens')) {
             const gens = parseInt(params.get('gens')!, 10);
-            if (!isNaN(gens) && gens >= 1 && gens <= 1000) {
+            if (!isNaN(gens) && gens >= 1 && gens <= 5000) {
                 config.gens = gens;
             }
         }
 
-        // Toroidal
+        // Boundary mode: "true"/"false" from older links, or a mode name such as "klein"
         if (params.has('toroidal')) {
-            config.toroidal = params.get('toroidal') === 'true';
+            const value = params.get('toroidal')!;
+            if (isBoundaryMode(value)) {
+                config.boundary = value;
+            } else {
+                config.boundary = value === 'true' ? 'torus' : 'plane';
+            }
+        }
+
+        // Infinite plane
+        if (params.has('infinite')) {
+            config.infinite = params.get('infinite') === 'true';
+        }
+
+        // HashLife jump target (generation number of the first displayed generation)
+        if (params.has('jump')) {
+            const jump = Number(params.get('jump'));
+            if (Number.isSafeInteger(jump) && jump >= 0) {
+                config.jump = jump;
+            }
         }
 
         // Padding
@@ -95,9 +162,9 @@ export class URLHandler {
      */
     public static hasURLConfig(): boolean {
         const params = new URLSearchParams(window.location.search);
-        return params.has('pattern') || params.has('rle') || params.has('grid') ||
+        return params.has('pattern') || params.has('rle') || params.has('seed') || params.has('scene') || params.has('grid') ||
                params.has('rule') || params.has('gens') || params.has('toroidal') ||
-               params.has('padding') || params.has('colors') || params.has('range');
+               params.has('infinite') || params.has('jump') || params.has('padding') || params.has('colors') || params.has('range');
     }
 
     /**
@@ -107,14 +174,23 @@ export class URLHandler {
         const params = new URLSearchParams();
         const baseURL = window.location.origin + window.location.pathname;
 
-        if (config.pattern) {
+        if (config.seed !== undefined) {
+            params.set('seed', config.seed.toString());
+            if (config.soup) {
+                const { size, density, symmetry } = config.soup;
+                params.set('soup', `${size},${Math.round(density * 100)},${symmetry}`);
+            }
+        } else if (config.scene) {
+            params.set('scene', encodeScene(config.scene));
+        } else if (config.pattern) {
             params.set('pattern', config.pattern);
         } else if (config.rle) {
             params.set('rle', encodeURIComponent(config.rle));
         }
 
         if (config.grid !== undefined) {
-            params.set('grid', config.grid.toString());
+            const { width, height } = config.grid;
+            params.set('grid', width === height ? width.toString() : `${width}x${height}`);
         }
         if (config.rule) {
             params.set('rule', config.rule);
@@ -122,8 +198,14 @@ export class URLHandler {
         if (config.gens !== undefined && config.gens > 0) {
             params.set('gens', config.gens.toString());
         }
-        if (config.toroidal !== undefined) {
-            params.set('toroidal', config.toroidal.toString());
+        if (config.boundary !== undefined) {
+            params.set('toroidal', LEGACY_BOUNDARY_VALUES[config.boundary] ?? config.boundary);
+        }
+        if (config.infinite) {
+            params.set('infinite', 'true');
+        }
+        if (config.jump) {
+            params.set('jump', config.jump.toString());
         }
         if (config.padding !== undefined) {
             params.set('padding', config.padding.toString());
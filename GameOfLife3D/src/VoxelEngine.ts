@@ -0,0 +1,324 @@
+/**
+ * True 3D cellular automata: each generation is a voxel volume and cells see
+ * their 26 Moore neighbors. Rules use Bays' notation E_l E_u F_l F_u, e.g. 4555:
+ * a live cell survives with 4-5 live neighbors and a dead cell is born with exactly 5.
+ */
+
+export interface VoxelRule {
+    name: string;
+    survivalMin: number;
+    survivalMax: number;
+    birthMin: number;
+    birthMax: number;
+}
+
+export const VOXEL_RULE_PRESETS: Record<string, VoxelRule> = {
+    '4555': { name: 'Life 4555', survivalMin: 4, survivalMax: 5, birthMin: 5, birthMax: 5 },
+    '5766': { name: 'Life 5766', survivalMin: 5, survivalMax: 7, birthMin: 6, birthMax: 6 },
+};
+
+const MAX_NEIGHBORS = 26;
+const MAX_GENERATIONS = 5000;
+
+/**
+ * One generation of a 3D automaton. Live cells are stored as interleaved
+ * x, y, z triples, where y is the vertical axis.
+ */
+export class VoxelGeneration {
+    constructor(
+        public readonly index: number,
+        public readonly coords: Int32Array
+    ) {}
+
+    get population(): number {
+        return this.coords.length / 3;
+    }
+
+    forEachCell(callback: (x: number, y: number, z: number) => void): void {
+        const coords = this.coords;
+        for (let i = 0; i < coords.length; i += 3) {
+            callback(coords[i], coords[i + 1], coords[i + 2]);
+        }
+    }
+}
+
+/**
+ * Parses a 3D rule as four digits ("4555") or four comma-separated counts ("4,5,5,5").
+ * Throws on invalid input.
+ */
+export function parseVoxelRule(rule: string): VoxelRule {
+    const trimmed = rule.trim();
+    const match = trimmed.match(/^(\d)(\d)(\d)(\d)$/) ?? trimmed.match(/^(\d+),(\d+),(\d+),(\d+)$/);
+    if (!match) {
+        throw new Error(`Invalid 3D rule "${rule}" (expected four counts such as 4555)`);
+    }
+
+    const [survivalMin, survivalMax, birthMin, birthMax] = match.slice(1).map(Number);
+    if (Math.max(survivalMin, survivalMax, birthMin, birthMax) > MAX_NEIGHBORS) {
+        throw new Error(`3D rule counts must be between 0 and ${MAX_NEIGHBORS}`);
+    }
+    if (survivalMin > survivalMax || birthMin > birthMax) {
+        throw new Error(`Empty survival or birth range in 3D rule "${rule}"`);
+    }
+    return { name: 'Custom', survivalMin, survivalMax, birthMin, birthMax };
+}
+
+export function formatVoxelRule(rule: VoxelRule): string {
+    const counts = [rule.survivalMin, rule.survivalMax, rule.birthMin, rule.birthMax];
+    return counts.every(count => count <= 9) ? counts.join('') : counts.join(',');
+}
+
+export class VoxelEngine {
+    private width: number;
+    private height: number;
+    private depth: number;
+    private toroidal: boolean = false;
+    private rule: VoxelRule = VOXEL_RULE_PRESETS['4555'];
+    private currentRuleName: string = '4555';
+    private generations: VoxelGeneration[] = [];
+
+    /**
+     * @param width Size along x, matching the 2D grid width
+     * @param height Vertical size (y)
+     * @param depth Size along z, matching the 2D grid height
+     */
+    constructor(width: number = 50, height: number = 30, depth: number = 50) {
+        this.width = width;
+        this.height = height;
+        this.depth = depth;
+    }
+
+    setSize(width: number, height: number, depth: number): void {
+        this.width = width;
+        this.height = height;
+        this.depth = depth;
+        this.generations = [];
+    }
+
+    getWidth(): number {
+        return this.width;
+    }
+
+    getHeight(): number {
+        return this.height;
+    }
+
+    getDepth(): number {
+        return this.depth;
+    }
+
+    setToroidal(enabled: boolean): void {
+        this.toroidal = enabled;
+    }
+
+    isToroidal(): boolean {
+        return this.toroidal;
+    }
+
+    setRule(ruleKey: string): void {
+        const rule = VOXEL_RULE_PRESETS[ruleKey];
+        if (rule) {
+            this.rule = rule;
+            this.currentRuleName = ruleKey;
+        }
+    }
+
+    /**
+     * Sets a custom rule in Bays' notation. Throws on invalid input.
+     */
+    setRuleString(rule: string): void {
+        this.rule = parseVoxelRule(rule);
+        this.currentRuleName = 'custom';
+    }
+
+    getCurrentRule(): string {
+        return this.currentRuleName;
+    }
+
+    getRuleString(): string {
+        return formatVoxelRule(this.rule);
+    }
+
+    /**
+     * Fills a cube in the middle of the volume with random cells; the usual way
+     * to seed 3D rules, which have few known small patterns.
+     */
+    initializeRandom(density: number = 0.3, fraction: number = 1 / 3): void {
+        const sizeX = Math.max(1, Math.round(this.width * fraction));
+        const sizeY = Math.max(1, Math.round(this.height * fraction));
+        const sizeZ = Math.max(1, Math.round(this.depth * fraction));
+        const startX = Math.floor((this.width - sizeX) / 2);
+        const startY = Math.floor((this.height - sizeY) / 2);
+        const startZ = Math.floor((this.depth - sizeZ) / 2);
+
+        const cells = new Uint8Array(this.width * this.height * this.depth);
+        for (let x = startX; x < startX + sizeX; x++) {
+            for (let y = startY; y < startY + sizeY; y++) {
+                for (let z = startZ; z < startZ + sizeZ; z++) {
+                    if (Math.random() < density) {
+                        cells[this.cellIndex(x, y, z)] = 1;
+                    }
+                }
+            }
+        }
+        this.generations = [new VoxelGeneration(0, this.collectCells(cells))];
+    }
+
+    /**
+     * Places a 2D pattern as a two-layer slab in the middle of the volume,
+     * with pattern rows along x and columns along z.
+     */
+    initializeFromPattern(pattern: boolean[][]): void {
+        const rows = pattern.length;
+        const cols = rows > 0 ? Math.max(...pattern.map(row => row.length)) : 0;
+        const startX = Math.floor((this.width - rows) / 2);
+        const startZ = Math.floor((this.depth - cols) / 2);
+        const middle = Math.floor(this.height / 2);
+
+        const cells = new Uint8Array(this.width * this.height * this.depth);
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < pattern[row].length; col++) {
+                const x = startX + row;
+                const z = startZ + col;
+                if (!pattern[row][col] || x < 0 || x >= this.width || z < 0 || z >= this.depth) continue;
+                for (let y = middle - 1; y <= middle; y++) {
+                    if (y >= 0) {
+                        cells[this.cellIndex(x, y, z)] = 1;
+                    }
+                }
+            }
+        }
+        this.generations = [new VoxelGeneration(0, this.collectCells(cells))];
+    }
+
+    /**
+     * Drops every generation after the first, e.g. after a rule change.
+     */
+    resetToInitialGeneration(): void {
+        this.generations = this.generations.slice(0, 1);
+    }
+
+    computeSingleGeneration(): boolean {
+        if (this.generations.length === 0 || this.generations.length >= MAX_GENERATIONS) {
+            return false;
+        }
+
+        const current = this.generations[this.generations.length - 1];
+        const alive = new Uint8Array(this.width * this.height * this.depth);
+        current.forEachCell((x, y, z) => {
+            alive[this.cellIndex(x, y, z)] = 1;
+        });
+
+        const counts = this.countNeighbors(alive);
+        const rule = this.rule;
+        const next = new Uint8Array(alive.length);
+        for (let i = 0; i < alive.length; i++) {
+            const count = counts[i];
+            if (alive[i]) {
+                next[i] = count >= rule.survivalMin && count <= rule.survivalMax ? 1 : 0;
+            } else {
+                next[i] = count >= rule.birthMin && count <= rule.birthMax ? 1 : 0;
+            }
+        }
+
+        this.generations.push(new VoxelGeneration(current.index + 1, this.collectCells(next)));
+        return true;
+    }
+
+    getGeneration(index: number): VoxelGeneration | null {
+        return this.generations[index] ?? null;
+    }
+
+    getGenerations(): VoxelGeneration[] {
+        return this.generations;
+    }
+
+    getGenerationCount(): number {
+        return this.generations.length;
+    }
+
+    getMaxGenerations(): number {
+        return MAX_GENERATIONS;
+    }
+
+    clear(): void {
+        this.generations = [];
+    }
+
+    private cellIndex(x: number, y: number, z: number): number {
+        return (x * this.height + y) * this.depth + z;
+    }
+
+    /**
+     * Live neighbor counts for every cell. The 3x3x3 box sum is separable, so it
+     * is summed one axis at a time; the cell itself is then subtracted.
+     */
+    private countNeighbors(alive: Uint8Array): Uint8Array {
+        const { width, height, depth } = this;
+        const alongZ = new Uint8Array(alive.length);
+        const alongY = new Uint8Array(alive.length);
+        const counts = new Uint8Array(alive.length);
+
+        for (let x = 0; x < width; x++) {
+            for (let y = 0; y < height; y++) {
+                for (let z = 0; z < depth; z++) {
+                    const i = this.cellIndex(x, y, z);
+                    alongZ[i] = alive[i] + this.sample(alive, x, y, z - 1) + this.sample(alive, x, y, z + 1);
+                }
+            }
+        }
+        for (let x = 0; x < width; x++) {
+            for (let y = 0; y < height; y++) {
+                for (let z = 0; z < depth; z++) {
+                    const i = this.cellIndex(x, y, z);
+                    alongY[i] = alongZ[i] + this.sample(alongZ, x, y - 1, z) + this.sample(alongZ, x, y + 1, z);
+                }
+            }
+        }
+        for (let x = 0; x < width; x++) {
+            for (let y = 0; y < height; y++) {
+                for (let z = 0; z < depth; z++) {
+                    const i = this.cellIndex(x, y, z);
+                    counts[i] = alongY[i] + this.sample(alongY, x - 1, y, z) + this.sample(alongY, x + 1, y, z) - alive[i];
+                }
+            }
+        }
+        return counts;
+    }
+
+    /**
+     * Value at (x, y, z), wrapping around the edges in toroidal mode and 0 outside the volume otherwise.
+     */
+    private sample(values: Uint8Array, x: number, y: number, z: number): number {
+        if (this.toroidal) {
+            x = (x + this.width) % this.width;
+            y = (y + this.height) % this.height;
+            z = (z + this.depth) % this.depth;
+        } else if (x < 0 || x >= this.width || y < 0 || y >= this.height || z < 0 || z >= this.depth) {
+            return 0;
+        }
+        return values[this.cellIndex(x, y, z)];
+    }
+
+    private collectCells(cells: Uint8Array): Int32Array {
+        let population = 0;
+        for (let i = 0; i < cells.length; i++) {
+            population += cells[i];
+        }
+
+        const coords = new Int32Array(population * 3);
+        let n = 0;
+        for (let x = 0; x < this.width; x++) {
+            for (let y = 0; y < this.height; y++) {
+                for (let z = 0; z < this.depth; z++) {
+                    if (cells[this.cellIndex(x, y, z)]) {
+                        coords[n++] = x;
+                        coords[n++] = y;
+                        coords[n++] = z;
+                    }
+                }
+            }
+        }
+        return coords;
+    }
+}
@@ -0,0 +1,360 @@
+import { BoundaryMode } from './Boundary.js';
+import { GameEngine, GameState, GenerationCells } from './GameEngine.js';
+import { Neighborhood } from './HenselNotation.js';
+import { PatternLoader } from './PatternLoader.js';
+import { ScenePlacement } from './Scene.js';
+import { SoupOptions } from './Soup.js';
+
+/**
+ * Engine configuration sent to the worker with every compute job.
+ * Mirrors GameState without the generation data.
+ */
+export type SimulationConfig = Omit<GameState, 'generations' | 'currentGeneration'>;
+
+export type WorkerRequest =
+    | {
+        type: 'compute';
+        jobId: number;
+        config: SimulationConfig;
+        seed: GenerationCells;
+        startIndex: number;
+        targetCount: number;
+    }
+    | {
+        type: 'jump';
+        jobId: number;
+        config: SimulationConfig;
+        seed: Int32Array;
+        target: number;
+    }
+    | { type: 'cancel'; jobId: number };
+
+export type WorkerResponse =
+    | {
+        type: 'generations';
+        jobId: number;
+        generations: GenerationCells[];
+    }
+    | { type: 'jumped'; jobId: number; index: number; coords: Int32Array }
+    | { type: 'complete'; jobId: number }
+    | { type: 'error'; jobId: number; message: string };
+
+export type ComputeProgressCallback = (completed: number, total: number) => void;
+
+interface ComputeJob {
+    id: number;
+    targetCount: number;
+    /** Set for HashLife jumps, which produce a single generation */
+    jumpTarget?: number;
+    onProgress?: ComputeProgressCallback;
+    resolve: (finished: boolean) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * GameEngine whose bulk computation runs in a Web Worker.
+ *
+ * Configuration and generation storage stay on the main thread; the worker
+ * receives the latest generation plus the engine configuration and streams
+ * finished generations back in batches. Changing the rule, boundary, grid
+ * size or pattern cancels any job that is still running.
+ */
+export class WorkerGameEngine extends GameEngine {
+    private worker: Worker | null = null;
+    private activeJob: ComputeJob | null = null;
+    private nextJobId = 1;
+
+    private boundHandleMessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+    private boundHandleError = (event: ErrorEvent) => this.handleWorkerError(event);
+
+    constructor(gridWidth: number = 50, gridHeight: number = gridWidth) {
+        super(gridWidth, gridHeight);
+
+        if (typeof Worker !== 'undefined') {
+            try {
+                this.worker = new Worker(new URL('./SimulationWorker.js', import.meta.url), { type: 'module' });
+                this.worker.addEventListener('message', this.boundHandleMessage);
+                this.worker.addEventListener('error', this.boundHandleError);
+            } catch (error) {
+                console.warn('Simulation worker unavailable, computing on the main thread:', error);
+                this.worker = null;
+            }
+        }
+    }
+
+    /**
+     * Computes generations up to `count` in the background.
+     * Generations are appended as they arrive, so callers can render partial results
+     * from the progress callback.
+     * @returns true when the run finished, false if it was cancelled
+     */
+    computeGenerationsAsync(count: number, onProgress?: ComputeProgressCallback): Promise<boolean> {
+        this.cancelComputation();
+
+        const startCount = this.getGenerationCount();
+        if (startCount === 0) {
+            return Promise.reject(new Error('No initial generation set. Call initializeFromPattern or initializeRandom first.'));
+        }
+
+        const targetCount = Math.min(count, this.getMaxGenerations());
+        if (targetCount <= startCount) {
+            return Promise.resolve(true);
+        }
+
+        return this.startJob({ targetCount, onProgress });
+    }
+
+    /**
+     * Jumps to generation `target` with HashLife in the background.
+     * On success the engine holds that single generation; see GameEngine.jumpToGeneration.
+     * @returns true when the jump finished, false if it was cancelled
+     */
+    jumpToGenerationAsync(target: number): Promise<boolean> {
+        this.cancelComputation();
+
+        if (this.getGenerationCount() === 0) {
+            return Promise.reject(new Error('No initial generation set. Call initializeFromPattern or initializeRandom first.'));
+        }
+        if (!this.isInfinite()) {
+            return Promise.reject(new Error('Jumping ahead requires infinite plane mode'));
+        }
+
+        return this.startJob({ targetCount: 1, jumpTarget: target });
+    }
+
+    /**
+     * Stops the running job, if any. Generations already received are kept.
+     */
+    cancelComputation(): void {
+        const job = this.activeJob;
+        if (!job) return;
+
+        this.activeJob = null;
+        if (this.worker) {
+            const request: WorkerRequest = { type: 'cancel', jobId: job.id };
+            this.worker.postMessage(request);
+        }
+        job.resolve(false);
+    }
+
+    isComputing(): boolean {
+        return this.activeJob !== null;
+    }
+
+    jumpToGeneration(target: number): void {
+        this.cancelComputation();
+        super.jumpToGeneration(target);
+    }
+
+    computeSingleGeneration(): boolean {
+        if (this.activeJob) {
+            return false;
+        }
+        return super.computeSingleGeneration();
+    }
+
+    setBoundary(boundary: BoundaryMode): void {
+        this.cancelComputation();
+        super.setBoundary(boundary);
+    }
+
+    setInfinite(enabled: boolean): void {
+        this.cancelComputation();
+        super.setInfinite(enabled);
+    }
+
+    setRule(ruleKey: string): void {
+        this.cancelComputation();
+        super.setRule(ruleKey);
+    }
+
+    setCustomRule(birth: number[], survival: number[], states: number = 2, neighborhood: Neighborhood = 'moore'): void {
+        this.cancelComputation();
+        super.setCustomRule(birth, survival, states, neighborhood);
+    }
+
+    setRuleString(rule: string): void {
+        this.cancelComputation();
+        super.setRuleString(rule);
+    }
+
+    setGridSize(width: number, height: number = width): void {
+        this.cancelComputation();
+        super.setGridSize(width, height);
+    }
+
+    initializeFromPattern(pattern: boolean[][]): void {
+        this.cancelComputation();
+        super.initializeFromPattern(pattern);
+    }
+
+    initializeFromCells(cells: Int32Array, width: number, height: number): void {
+        this.cancelComputation();
+        super.initializeFromCells(cells, width, height);
+    }
+
+    initializeRandom(density: number = 0.3, seed?: number): void {
+        this.cancelComputation();
+        super.initializeRandom(density, seed);
+    }
+
+    initializeSoup(seed: number, options?: SoupOptions): void {
+        this.cancelComputation();
+        super.initializeSoup(seed, options);
+    }
+
+    initializeScene(scene: ScenePlacement[], patternLoader: PatternLoader): void {
+        this.cancelComputation();
+        super.initializeScene(scene, patternLoader);
+    }
+
+    setCells(cells: Int32Array, alive: boolean, offGrid: boolean = false): number {
+        const changed = super.setCells(cells, alive, offGrid);
+        // Painting over cells already in that state keeps a running computation
+        if (changed > 0) {
+            this.cancelComputation();
+        }
+        return changed;
+    }
+
+    clearAllCells(): void {
+        this.cancelComputation();
+        super.clearAllCells();
+    }
+
+    resetToInitialGeneration(): void {
+        this.cancelComputation();
+        super.resetToInitialGeneration();
+    }
+
+    importState(state: GameState): void {
+        this.cancelComputation();
+        super.importState(state);
+    }
+
+    clear(): void {
+        this.cancelComputation();
+        super.clear();
+    }
+
+    dispose(): void {
+        this.cancelComputation();
+        if (this.worker) {
+            this.worker.removeEventListener('message', this.boundHandleMessage);
+            this.worker.removeEventListener('error', this.boundHandleError);
+            this.worker.terminate();
+            this.worker = null;
+        }
+    }
+
+    private startJob(options: Pick<ComputeJob, 'targetCount' | 'jumpTarget' | 'onProgress'>): Promise<boolean> {
+        return new Promise<boolean>((resolve, reject) => {
+            const job: ComputeJob = { id: this.nextJobId++, ...options, resolve, reject };
+            this.activeJob = job;
+
+            if (this.worker) {
+                this.postJob(job);
+            } else {
+                this.runJobOnMainThread(job);
+            }
+        });
+    }
+
+    private postJob(job: ComputeJob): void {
+        const state = this.exportState();
+        const config: SimulationConfig = {
+            gridWidth: state.gridWidth,
+            gridHeight: state.gridHeight,
+            boundary: state.boundary,
+            infinite: state.infinite,
+            ruleName: state.ruleName,
+            birthRule: state.birthRule,
+            survivalRule: state.survivalRule,
+            stateCount: state.stateCount,
+            ruleString: state.ruleString
+        };
+
+        let request: WorkerRequest;
+        if (job.jumpTarget !== undefined) {
+            request = {
+                type: 'jump',
+                jobId: job.id,
+                config,
+                seed: this.getInitialGeneration()!.coords,
+                target: job.jumpTarget
+            };
+        } else {
+            const last = this.getGeneration(this.getGenerationCount() - 1)!;
+            request = {
+                type: 'compute',
+                jobId: job.id,
+                config,
+                seed: { coords: last.coords, dyingCoords: last.dyingCoords, dyingStates: last.dyingStates },
+                startIndex: this.getGenerationCount() - 1,
+                targetCount: job.targetCount
+            };
+        }
+        this.worker!.postMessage(request);
+    }
+
+    private runJobOnMainThread(job: ComputeJob): void {
+        try {
+            if (job.jumpTarget !== undefined) {
+                super.jumpToGeneration(job.jumpTarget);
+            } else {
+                super.computeGenerations(job.targetCount);
+            }
+        } catch (error) {
+            this.activeJob = null;
+            job.reject(error instanceof Error ? error : new Error(String(error)));
+            return;
+        }
+        this.activeJob = null;
+        job.onProgress?.(this.getGenerationCount(), job.targetCount);
+        job.resolve(true);
+    }
+
+    private handleMessage(response: WorkerResponse): void {
+        const job = this.activeJob;
+        // Messages from cancelled jobs can still be in flight; drop them
+        if (!job || response.jobId !== job.id) return;
+
+        switch (response.type) {
+            case 'generations':
+                for (const cells of response.generations) {
+                    this.addGeneration(cells);
+                }
+                job.onProgress?.(this.getGenerationCount(), job.targetCount);
+                break;
+            case 'jumped':
+                this.startFromGeneration(response.index, response.coords);
+                this.activeJob = null;
+                job.resolve(true);
+                break;
+            case 'complete':
+                this.activeJob = null;
+                job.resolve(true);
+                break;
+            case 'error':
+                this.activeJob = null;
+                job.reject(new Error(response.message));
+                break;
+        }
+    }
+
+    private handleWorkerError(event: ErrorEvent): void {
+        // Module workers can fail to load (e.g. file:// origins); fall back to the main thread
+        console.warn('Simulation worker failed, computing on the main thread:', event.message);
+        event.preventDefault();
+
+        this.worker?.removeEventListener('message', this.boundHandleMessage);
+        this.worker?.removeEventListener('error', this.boundHandleError);
+        this.worker?.terminate();
+        this.worker = null;
+
+        const job = this.activeJob;
+        if (job) {
+            this.runJobOnMainThread(job);
+        }
+    }
+}
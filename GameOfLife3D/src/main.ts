@@ -1,18 +1,21 @@
-import { GameEngine } from './GameEngine.js';
+import { WorkerGameEngine } from './WorkerGameEngine.js';
+import { RULE_PRESETS } from './GameEngine.js';
 import { Renderer3D } from './Renderer3D.js';
 import { CameraController } from './CameraController.js';
 import { UIControls } from './UIControls.js';
 import { PatternLoader } from './PatternLoader.js';
 import { PopulationGraph } from './PopulationGraph.js';
+import { VoxelEngine } from './VoxelEngine.js';
 import { URLHandler, URLConfig } from './URLHandler.js';
 
 class GameOfLife3D {
-    private gameEngine!: GameEngine;
+    private gameEngine!: WorkerGameEngine;
     private renderer!: Renderer3D;
     private cameraController!: CameraController;
     private uiControls!: UIControls;
     private patternLoader!: PatternLoader;
     private populationGraph!: PopulationGraph;
+    private voxelEngine!: VoxelEngine;
 
     private canvas!: HTMLCanvasElement;
     private isRunning = false;
@@ -38,18 +41,20 @@ class GameOfLife3D {
     }
 
     private initializeComponents(): void {
-        this.gameEngine = new GameEngine(50);
+        this.gameEngine = new WorkerGameEngine(50);
         this.renderer = new Renderer3D(this.canvas);
         this.cameraController = new CameraController(this.renderer.getCamera(), this.canvas);
         this.patternLoader = new PatternLoader();
         this.populationGraph = new PopulationGraph();
+        this.voxelEngine = new VoxelEngine(50, 30, 50);
 
         this.uiControls = new UIControls(
             this.gameEngine,
             this.renderer,
             this.cameraController,
             this.patternLoader,
-            this.populationGraph
+            this.populationGraph,
+            this.voxelEngine
         );
     }
 
@@ -108,22 +113,26 @@ class GameOfLife3D {
     private applyURLConfig(config: URLConfig): void {
         // Apply grid size first (affects pattern placement)
         if (config.grid) {
-            this.gameEngine.setGridSize(config.grid);
-            this.renderer.setGridSize(config.grid);
-            // Update UI dropdown
-            const gridSelect = document.getElementById('grid-size') as HTMLSelectElement | null;
-            if (gridSelect) {
-                gridSelect.value = config.grid.toString();
-            }
+            this.gameEngine.setGridSize(config.grid.width, config.grid.height);
+            this.renderer.setGridSize(config.grid.width, config.grid.height);
+            // Update UI inputs
+            this.uiControls.syncGridSizeInputs();
+        }
+
+        // Apply boundary mode
+        if (config.boundary !== undefined) {
+            this.gameEngine.setBoundary(config.boundary);
+            this.uiControls.syncBoundaryControls();
         }
 
-        // Apply toroidal setting
-        if (config.toroidal !== undefined) {
-            this.gameEngine.setToroidal(config.toroidal);
-            const toroidalToggle = document.getElementById('toroidal-toggle') as HTMLInputElement | null;
-            if (toroidalToggle) {
-                toroidalToggle.checked = config.toroidal;
+        // Apply infinite plane setting
+        if (config.infinite !== undefined) {
+            this.gameEngine.setInfinite(config.infinite);
+            const infiniteToggle = document.getElementById('infinite-toggle') as HTMLInputElement | null;
+            if (infiniteToggle) {
+                infiniteToggle.checked = config.infinite;
             }
+            this.uiControls.syncBoundaryControls();
         }
 
         // Apply rule
@@ -131,23 +140,19 @@ class GameOfLife3D {
             const rulePreset = document.getElementById('rule-preset') as HTMLSelectElement | null;
             const customContainer = document.getElementById('custom-rule-container');
 
-            if (config.rule.match(/^B\d*S\d*$/i)) {
-                // Custom B/S notation
-                const match = config.rule.match(/B(\d*)S(\d*)/i);
-                if (match) {
-                    const birth = match[1].split('').map(Number);
-                    const survival = match[2].split('').map(Number);
-                    this.gameEngine.setCustomRule(birth, survival);
+            if (!RULE_PRESETS[config.rule]) {
+                // Custom rulestring: B/S with optional Hensel letters, C states and V/H suffix, or Larger than Life
+                try {
+                    this.gameEngine.setRuleString(config.rule);
                     if (rulePreset) {
                         rulePreset.value = 'custom';
                     }
                     if (customContainer) {
                         customContainer.style.display = 'block';
                     }
-                    const birthInput = document.getElementById('custom-birth') as HTMLInputElement | null;
-                    const survivalInput = document.getElementById('custom-survival') as HTMLInputElement | null;
-                    if (birthInput) birthInput.value = match[1];
-                    if (survivalInput) survivalInput.value = match[2];
+                    this.uiControls.syncCustomRuleInputs();
+                } catch (error) {
+                    console.warn('Invalid rule in URL:', error);
                 }
             } else {
                 // Preset name
@@ -162,7 +167,21 @@ class GameOfLife3D {
         }
 
         // Load pattern
-        if (config.pattern) {
+        if (config.seed !== undefined) {
+            this.gameEngine.initializeSoup(config.seed, config.soup);
+            this.uiControls.setCurrentPatternName(null);
+            this.uiControls.syncSoupInputs();
+        } else if (config.scene) {
+            try {
+                this.gameEngine.initializeScene(config.scene, this.patternLoader);
+                this.uiControls.setCurrentPatternName(null);
+                this.uiControls.syncSceneInput();
+            } catch (error) {
+                console.error('Error building scene from URL:', error);
+                this.loadDefaultPattern();
+                return;
+            }
+        } else if (config.pattern) {
             const pattern = this.patternLoader.getBuiltInPattern(config.pattern);
             if (pattern) {
                 this.gameEngine.initializeFromPattern(pattern);
@@ -170,7 +189,15 @@ class GameOfLife3D {
         } else if (config.rle) {
             try {
                 const pattern = this.patternLoader.parseRLE(config.rle);
-                this.gameEngine.initializeFromPattern(pattern);
+                // Patterns shared from the infinite plane may reach past the grid, where
+                // initializeFromCells keeps them
+                const cells: number[] = [];
+                pattern.forEach((row, x) => row.forEach((alive, y) => {
+                    if (alive) {
+                        cells.push(x, y);
+                    }
+                }));
+                this.gameEngine.initializeFromCells(Int32Array.from(cells), pattern.length, pattern[0].length);
             } catch (error) {
                 console.error('Error parsing RLE from URL:', error);
                 // Fall back to default pattern
@@ -183,9 +210,15 @@ class GameOfLife3D {
             return;
         }
 
-        // Compute generations if specified
-        if (config.gens && config.gens > 0) {
-            this.gameEngine.computeGenerations(config.gens);
+        // Compute generations if specified (runs in the simulation worker),
+        // jumping ahead with HashLife first when requested
+        let computed: Promise<boolean>;
+        if (config.jump && this.gameEngine.isInfinite()) {
+            computed = this.uiControls.jumpToGeneration(config.jump, config.gens ?? 1);
+        } else if (config.gens && config.gens > 0) {
+            computed = this.uiControls.computeGenerations(config.gens);
+        } else {
+            computed = Promise.resolve(true);
         }
 
         // Apply padding
@@ -212,21 +245,23 @@ class GameOfLife3D {
             }
         }
 
-        // Sync display range with UIControls
-        this.uiControls.syncDisplayRange();
-
-        // Set display range if specified
-        if (config.range) {
-            const startInput = document.getElementById('display-start') as HTMLInputElement | null;
-            const endInput = document.getElementById('display-end') as HTMLInputElement | null;
-            if (startInput && endInput) {
-                const maxGen = this.gameEngine.getGenerationCount() - 1;
-                startInput.value = Math.min(config.range.min, maxGen).toString();
-                endInput.value = Math.min(config.range.max, maxGen).toString();
+        computed.then(() => {
+            // Sync display range with UIControls
+            this.uiControls.syncDisplayRange();
+
+            // Set display range if specified
+            if (config.range) {
+                const startInput = document.getElementById('display-start') as HTMLInputElement | null;
+                const endInput = document.getElementById('display-end') as HTMLInputElement | null;
+                if (startInput && endInput) {
+                    const maxGen = this.gameEngine.getGenerationCount() - 1;
+                    startInput.value = Math.min(config.range.min, maxGen).toString();
+                    endInput.value = Math.min(config.range.max, maxGen).toString();
+                }
             }
-        }
 
-        this.uiControls.refreshCurrentView();
+            this.uiControls.refreshCurrentView();
+        });
     }
 
     private startRenderLoop(): void {
@@ -261,6 +296,7 @@ class GameOfLife3D {
     private dispose(): void {
         this.isRunning = false;
         this.uiControls.dispose();
+        this.gameEngine.dispose();
         this.renderer.dispose();
         this.cameraController.dispose();
         this.populationGraph.destroy();